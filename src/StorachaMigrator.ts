@@ -4,18 +4,98 @@ import {
   FileData,
   UploadResponse,
   SpaceResponse,
+  CreateSpaceOptions,
+  SpaceDelegation,
+  SpaceInfo,
   MigrationProgress,
   StorachaMigratorInterface,
   MigrationOptions,
-  MigrationResult
+  MigrationResult,
+  DirectoryMigrationResult,
+  DirectoryMigrationOptions,
+  FileMigrationOptions,
+  DirectoryEntry,
+  MigrationJob,
+  CheckpointStore,
+  ManifestEntry,
+  MigrationManifest,
+  VerificationOptions,
+  VerificationReport,
+  PlanOptions,
+  MigrationPlan,
+  CheckpointFileRecord,
+  S3ObjectEntry,
+  SkippedObject,
+  SyncOptions,
+  SyncSummary,
+  MultiSourceJob,
+  MultiSourceMigrationResult,
+  SourceMigrationResult,
+  S3DeleteMarker,
+  ArchivedObject,
+  S3ObjectVersion,
+  VersionOptions,
+  InventorySource,
+  FetchOptions,
+  FailedFile,
+  S3ServiceConfig
 } from "./types/index.js";
+import { randomUUID } from "crypto";
 import { ConnectionManager } from "./managers/ConnectionManager.js";
 import { EventManager } from "./managers/EventManager.js";
 import { RetryManager } from "./managers/RetryManager.js";
 import { DefaultLogger } from "./utils/DefaultLogger.js";
 import { createUniqueName } from "./utils/nameGenerator.js";
+import { createBucketConfig } from "./utils/s3ClientFactory.js";
+import { ObjectFilter } from "./utils/ObjectFilter.js";
+import { DirectoryPathResolver } from "./utils/pathResolver.js";
+import { objectId } from "./utils/objectId.js";
+import { mapWithConcurrency } from "./utils/concurrency.js";
 import { S3Service } from "./services/s3Service.js";
+import { JsonFileCheckpointStore } from "./services/checkpointStore.js";
+import { ManifestWriter } from "./services/manifestWriter.js";
+import { VerificationService } from "./services/verificationService.js";
+import { PlanningService } from "./services/planningService.js";
+import { InventoryService } from "./services/inventoryService.js";
+import { RestoreService } from "./services/restoreService.js";
 import { UploadListItem } from "@web3-storage/upload-client/types";
+import type { ServiceAbility } from "@web3-storage/w3up-client/types";
+
+const METADATA_SIDECAR = '_metadata.json';
+
+// Files checkpointed per write while a directory listing is scanned
+const SCAN_BATCH_SIZE = 500;
+
+// Delete markers and objects left out, collected while a listing streams
+interface ObjectSelection {
+  skipped: SkippedObject[];
+  deleteMarkers: S3DeleteMarker[];
+}
+
+// What a directory run learns as its listing streams through the upload
+interface DirectoryScan extends ObjectSelection {
+  // Object IDs of every file in the directory, in listing order
+  seen: Set<string>;
+  existingEntries: DirectoryEntry[];
+  // Only kept when a metadata sidecar is written
+  sidecarRecords?: CheckpointFileRecord[];
+  sync: SyncSummary;
+  movedFiles: number;
+  uploadedFiles: number;
+  error?: unknown;
+}
+
+// Tags items with their position, so results finished out of order can be put back in it
+async function* numbered<T>(items: AsyncIterable<T>): AsyncGenerator<{ index: number; entry: T }> {
+  let index = 0;
+  for await (const entry of items) yield { index: index++, entry };
+}
+
+// Puts back an item taken off an iterator to peek at it
+async function* prepend<T>(item: T, rest: AsyncIterable<T>): AsyncGenerator<T> {
+  yield item;
+  yield* rest;
+}
 
 export class StorachaMigrator implements StorachaMigratorInterface {
   private readonly config: StorachaMigratorConfig;
@@ -24,6 +104,12 @@ export class StorachaMigrator implements StorachaMigratorInterface {
   private readonly eventManager: EventManager;
   private readonly retryManager: RetryManager;
   private readonly s3Service: S3Service;
+  private readonly checkpointStore: CheckpointStore;
+  private readonly verificationService: VerificationService;
+  private readonly planningService: PlanningService;
+  private readonly inventoryService: InventoryService;
+  // S3 services for buckets other than the configured one, by bucket name
+  private readonly bucketServices = new Map<string, S3Service>();
   private migrationOptions?: MigrationOptions;
 
   constructor(
@@ -38,6 +124,13 @@ export class StorachaMigrator implements StorachaMigratorInterface {
     this.eventManager = new EventManager();
     this.retryManager = new RetryManager(config.retry, this.logger);
     this.s3Service = new S3Service(config.s3, this.eventManager);
+    this.verificationService = new VerificationService(
+      this.s3Service,
+      (bucketName) => this.bucketServices.get(bucketName)
+    );
+    this.inventoryService = new InventoryService(config.s3);
+    this.planningService = new PlanningService();
+    this.checkpointStore = config.checkpoint?.store ?? new JsonFileCheckpointStore(config.checkpoint?.directory);
 
     if (options?.progressCallback) this.onProgress(options.progressCallback);
     if (options?.errorCallback) this.onError(options.errorCallback);
@@ -52,7 +145,7 @@ export class StorachaMigrator implements StorachaMigratorInterface {
     this.eventManager.close();
   }
 
-  async migrateFile(fileKey: string): Promise<UploadResponse> {
+  async migrateFile(fileKey: string, options?: FileMigrationOptions): Promise<UploadResponse> {
     return this.retryManager.withRetry(async () => {
       this.logger.info(`🔄 Migrating file: ${fileKey}`);
       this.updateProgress('preparing', 'preparing', { currentFile: fileKey, totalFiles: 1 });
@@ -64,7 +157,7 @@ export class StorachaMigrator implements StorachaMigratorInterface {
       const fileData = await this.s3Service.fetchFileFromS3(fileKey);
 
       this.updateProgress('upload', 'uploading');
-      const result = await storacha.uploadToStoracha(fileData.buffer, fileData.fileName);
+      const result = await storacha.uploadToStoracha(fileData, { space: options?.space });
 
       this.updateProgress(result.success ? 'completed' : 'error' as MigrationProgress['phase'], result.success ? 'completed' : 'error', {
         completedFiles: 1,
@@ -76,31 +169,171 @@ export class StorachaMigrator implements StorachaMigratorInterface {
     }, `migrate file ${fileKey}`);
   }
 
-  async migrateDirectory(directoryPath: string): Promise<UploadResponse> {
-    return this.retryManager.withRetry(async () => {
-      this.logger.info(`📂 Migrating directory: ${directoryPath}`);
-      const fileKeys = await this.s3Service.listFilesInS3Directory(directoryPath);
-      if (fileKeys.length === 0) throw new Error("⚠️ No files found in directory");
-
-      this.updateProgress('preparing', 'preparing', {
-        totalFiles: fileKeys.length,
-        currentFile: directoryPath,
-        totalBatches: Math.ceil(fileKeys.length / (this.migrationOptions?.batchSize || this.config.batch.size))
-      });
+  async migrateDirectory(
+    directoryPath: string,
+    options?: DirectoryMigrationOptions
+  ): Promise<DirectoryMigrationResult> {
+    const jobId = options?.jobId ?? randomUUID();
+    const existingJob = await this.checkpointStore.loadJob(jobId);
+    if (existingJob) {
+      if (existingJob.directoryPath !== directoryPath) {
+        throw new Error(`Migration job ${jobId} was created for ${existingJob.directoryPath}`);
+      }
+      return this.resumeMigration(jobId);
+    }
 
-      const filesData = await this.s3Service.fetchFilesInBatches(fileKeys);
-      const storacha = this.connectionManager.getStorachaConnection();
+    const now = new Date().toISOString();
+    const job: MigrationJob = {
+      jobId,
+      bucketName: this.config.s3.bucketName,
+      directoryPath,
+      status: 'running',
+      space: options?.space,
+      inventory: options?.inventory,
+      createdAt: now,
+      updatedAt: now
+    };
+    await this.checkpointStore.saveJob(job);
 
-      this.updateProgress('upload', 'uploading');
-      const result = await storacha.uploadDirectoryToStoracha(filesData);
+    this.logger.info(`📂 Migrating directory: ${directoryPath} (job ${jobId})`);
+    return this.runDirectoryMigration(job);
+  }
 
-      this.updateProgress(result.success ? 'completed' : 'error' as MigrationProgress['phase'], result.success ? 'uploading' : 'failed' as MigrationProgress['status'], {
-        completedFiles: fileKeys.length,
-        percentage: 100
-      });
+  async resumeMigration(jobId: string): Promise<DirectoryMigrationResult> {
+    const job = await this.checkpointStore.loadJob(jobId);
+    if (!job) throw new Error(`No checkpoint found for migration job: ${jobId}`);
+    if (job.bucketName !== this.config.s3.bucketName) {
+      throw new Error(`Migration job ${jobId} belongs to bucket ${job.bucketName}`);
+    }
 
-      return result;
-    }, `migrate directory ${directoryPath}`);
+    this.logger.info(`⏯ Resuming migration job ${jobId}: ${job.directoryPath}`);
+    return this.runDirectoryMigration(job);
+  }
+
+  async syncDirectory(
+    directoryPath: string,
+    options?: SyncOptions
+  ): Promise<DirectoryMigrationResult> {
+    const jobId = options?.jobId ?? `sync-${this.config.s3.bucketName}-${directoryPath}`;
+    const now = new Date().toISOString();
+    const job: MigrationJob = (await this.checkpointStore.loadJob(jobId)) ?? {
+      jobId,
+      bucketName: this.config.s3.bucketName,
+      directoryPath,
+      status: 'running',
+      createdAt: now,
+      updatedAt: now
+    };
+    if (job.directoryPath !== directoryPath) {
+      throw new Error(`Sync job ${jobId} was created for ${job.directoryPath}`);
+    }
+    job.space = options?.space ?? job.space;
+    await this.checkpointStore.saveJob(job);
+
+    this.logger.info(`🔁 Syncing directory: ${directoryPath} (job ${jobId})`);
+    return this.runDirectoryMigration(job, {
+      manifestName: `${jobId}-${now.replace(/[:.]/g, '-')}`,
+      writeReusedEntries: true
+    });
+  }
+
+  async planMigration(
+    directoryPath: string,
+    options?: PlanOptions
+  ): Promise<MigrationPlan> {
+    this.logger.info(`🧮 Planning migration for: ${directoryPath}`);
+    const records = options?.jobId
+      ? await this.checkpointStore.loadFiles(options.jobId)
+      : new Map<string, CheckpointFileRecord>();
+    const selection: ObjectSelection = { skipped: [], deleteMarkers: [] };
+    const plan = await this.planningService.planDirectory(
+      directoryPath,
+      this.listPlannedFiles(directoryPath, selection, records, options?.inventory),
+      {
+        batchSize: this.migrationOptions?.batchSize || this.config.batch.size,
+        ...selection
+      },
+      options
+    );
+    this.logger.info(`📋 ${plan.totalFiles} files (${plan.totalBytes} bytes) to migrate, ${plan.skipped.length} skipped`);
+    return plan;
+  }
+
+  async verifyMigration(
+    manifest: MigrationManifest | string,
+    options?: VerificationOptions
+  ): Promise<VerificationReport> {
+    this.logger.info(`🔎 Verifying migration manifest${typeof manifest === 'string' ? `: ${manifest}` : ''}`);
+    for (const bucket of options?.buckets ?? []) this.createBucketService(bucket);
+    const report = await this.verificationService.verifyManifest(manifest, {
+      concurrency: this.config.batch.concurrency,
+      ...options
+    });
+    this.logger.info(`✅ Verified ${report.passedFiles}/${report.totalFiles} files`);
+    return report;
+  }
+
+  async migrateSources(job: MultiSourceJob): Promise<MultiSourceMigrationResult> {
+    const jobId = job.jobId ?? randomUUID();
+    const totalSources = job.sources.length;
+    const manifestWriter = new ManifestWriter(
+      `${jobId}-${new Date().toISOString().replace(/[:.]/g, '-')}`,
+      this.config.manifest?.directory
+    );
+    const sources: SourceMigrationResult[] = [];
+    const entries: ManifestEntry[] = [];
+    this.logger.info(`🗂 Migrating ${totalSources} sources (job ${jobId})`);
+
+    for (const [index, source] of job.sources.entries()) {
+      const name = source.name ?? `${source.s3.bucketName}/${source.prefix}`;
+      const { bucketName } = source.s3;
+      this.logger.info(`📦 Source ${index + 1}/${totalSources}: ${name}`);
+      this.eventManager.updateProgress({ currentSource: name, completedSources: index, totalSources });
+
+      let result: MigrationResult;
+      try {
+        // Each source is its own checkpointed job, so rerunning the combined job resumes it
+        const sourceJob = await this.openSourceJob(`${jobId}-${index}`, bucketName, source.prefix, source.space);
+        result = await this.runDirectoryMigration(sourceJob, {
+          s3Service: this.createBucketService(source.s3)
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        this.logger.error(`❌ Source ${name} failed: ${message}`);
+        result = { success: false, error: message, totalFiles: 0, completedFiles: 0 };
+      }
+
+      sources.push({ name, bucketName, prefix: source.prefix, space: source.space, result });
+      const sourceEntries: ManifestEntry[] = [...(result.manifest?.entries ?? [])];
+      if (result.success && result.cid) {
+        sourceEntries.push({
+          type: 'directory',
+          key: source.prefix,
+          size: result.size ?? 0,
+          cid: result.cid,
+          path: '',
+          directoryCidPath: result.cid,
+          timestamp: new Date().toISOString()
+        });
+      }
+      const tagged = sourceEntries.map((entry) => ({ ...entry, source: name, bucket: bucketName, space: source.space }));
+      await manifestWriter.append(tagged);
+      entries.push(...tagged);
+    }
+
+    this.eventManager.updateProgress({ completedSources: totalSources, totalSources });
+    const failedFiles = sources.reduce((acc, { result }) => acc + (result.failedFiles?.length ?? 0), 0);
+    const multiResult: MultiSourceMigrationResult = {
+      success: sources.every(({ result }) => result.success),
+      jobId,
+      totalFiles: sources.reduce((acc, { result }) => acc + (result.totalFiles ?? 0), 0),
+      completedFiles: sources.reduce((acc, { result }) => acc + (result.completedFiles ?? 0), 0),
+      failedFiles,
+      sources,
+      manifest: { entries, jsonlPath: manifestWriter.jsonlPath, csvPath: manifestWriter.csvPath }
+    };
+    this.logger.info(`✅ Migrated ${sources.filter(({ result }) => result.success).length}/${totalSources} sources`);
+    return multiResult;
   }
 
   onProgress(callback: (progress: MigrationProgress) => void): void {
@@ -111,21 +344,51 @@ export class StorachaMigrator implements StorachaMigratorInterface {
     this.eventManager.onError(callback);
   }
 
-  async createSpace(): Promise<SpaceResponse> {
+  async createSpace(options: CreateSpaceOptions = {}): Promise<SpaceResponse> {
     return this.retryManager.withRetry(async () => {
-      const spaceName = createUniqueName();
+      const { name, ...spaceOptions } = options;
+      const spaceName = name ?? createUniqueName();
       this.logger.info(`🏗 Creating new space: ${spaceName}`);
       const storacha = this.connectionManager.getStorachaConnection();
-      return storacha.createNewStorachaSpace(spaceName);
+      return storacha.createNewStorachaSpace(spaceName, spaceOptions);
     }, "create space");
   }
 
-  async setSpace(did: string): Promise<SpaceResponse> {
+  async renameSpace(space: string, name: string): Promise<SpaceResponse> {
+    return this.retryManager.withRetry(async () => {
+      this.logger.info(`✏️ Renaming space ${space} to: ${name}`);
+      const storacha = this.connectionManager.getStorachaConnection();
+      return storacha.renameSpace(space, name);
+    }, `rename space ${space}`);
+  }
+
+  async getSpaceInfo(space: string): Promise<SpaceInfo> {
+    return this.retryManager.withRetry(async () => {
+      this.logger.info(`🔍 Getting info for space: ${space}`);
+      const storacha = this.connectionManager.getStorachaConnection();
+      return storacha.getSpaceInfo(space);
+    }, `get info for space ${space}`);
+  }
+
+  async delegateSpace(
+    space: string,
+    audienceDid: string,
+    capabilities: ServiceAbility[],
+    expiry?: Date
+  ): Promise<SpaceDelegation> {
+    return this.retryManager.withRetry(async () => {
+      this.logger.info(`🤝 Delegating space ${space} to: ${audienceDid}`);
+      const storacha = this.connectionManager.getStorachaConnection();
+      return storacha.delegateSpace(space, audienceDid, capabilities, expiry);
+    }, `delegate space ${space}`);
+  }
+
+  async setSpace(space: string): Promise<SpaceResponse> {
     return this.retryManager.withRetry(async () => {
-      this.logger.info(`🔄 Setting current space to: ${did}`);
+      this.logger.info(`🔄 Setting current space to: ${space}`);
       const storacha = this.connectionManager.getStorachaConnection();
-      return storacha.setCurrentSpaceByDID(did);
-    }, `set space ${did}`);
+      return storacha.setCurrentSpaceByDID(space);
+    }, `set space ${space}`);
   }
 
   async listSpaces(): Promise<SpaceResponse[]> {
@@ -151,6 +414,567 @@ export class StorachaMigrator implements StorachaMigratorInterface {
     return config;
   }
 
+  private async runDirectoryMigration(
+    job: MigrationJob,
+    runOptions: { manifestName?: string; writeReusedEntries?: boolean; s3Service?: S3Service } = {}
+  ): Promise<DirectoryMigrationResult> {
+    const s3Service = runOptions.s3Service ?? this.s3Service;
+    return this.retryManager.withRetry(async () => {
+      const { jobId, directoryPath } = job;
+      const previousRootCid = job.rootCid;
+      const upToDate = job.status === 'completed' && !!job.rootCid;
+      job.status = 'running';
+      job.updatedAt = new Date().toISOString();
+      await this.checkpointStore.saveJob(job);
+
+      const records = await this.checkpointStore.loadFiles(jobId);
+      const metadataOptions = this.migrationOptions?.metadata;
+      const resolver = new DirectoryPathResolver(directoryPath, this.migrationOptions?.paths);
+      const scan: DirectoryScan = {
+        skipped: [],
+        deleteMarkers: [],
+        seen: new Set(),
+        existingEntries: [],
+        sidecarRecords: metadataOptions?.sidecar ? [] : undefined,
+        sync: { previousRootCid, added: [], modified: [], removed: [], unchanged: 0 },
+        movedFiles: 0,
+        uploadedFiles: 0
+      };
+      const manifestWriter = new ManifestWriter(runOptions.manifestName ?? jobId, this.config.manifest?.directory);
+      // Totals are filled in once the listing has been read
+      this.updateProgress('preparing', 'preparing', { currentFile: directoryPath, totalFiles: 0, completedFiles: 0 });
+
+      // Listing, archive checks, metadata requests and uploads run side by side,
+      // so only compact links to the files are held in memory
+      const concurrency = this.migrationOptions?.concurrency || this.config.batch.concurrency;
+      const parked: ArchivedObject[] = [];
+      const pending = this.scanDirectory(
+        jobId,
+        this.listSelectedObjects(directoryPath, s3Service, scan, job.inventory),
+        records,
+        resolver,
+        scan,
+        runOptions.writeReusedEntries ? manifestWriter : undefined
+      );
+      const files = this.withDirectoryPaths(
+        this.fetchPendingFiles(jobId, s3Service, pending, parked, concurrency, { tags: metadataOptions?.tags }),
+        resolver
+      );
+      // Waiting for the first file also tells whether there is anything to upload
+      const first = await files.next();
+      if (first.done && scan.seen.size === 0) throw new Error("⚠️ No files found in directory");
+      // Only complete once the whole listing has been read
+      const findRemovedRecords = () =>
+        [...records].filter(([id, record]) => record.state === 'completed' && !scan.seen.has(id));
+
+      const storacha = this.connectionManager.getStorachaConnection();
+      const failedFiles: Array<{ file: string; error: Error }> = [];
+      this.updateProgress('upload', 'uploading');
+      const unchanged = upToDate && first.done && scan.movedFiles === 0 && findRemovedRecords().length === 0;
+      const result = unchanged ? {
+        success: true,
+        cid: previousRootCid,
+        url: `https://${previousRootCid}.ipfs.w3s.link`,
+        size: scan.existingEntries.reduce((acc, entry) => acc + entry.size, 0)
+      } as UploadResponse : await storacha.uploadFilesAsDirectory(first.done ? [] : prepend(first.value, files), {
+        space: job.space,
+        existingEntries: scan.existingEntries,
+        concurrency,
+        onFileUploaded: async (file, entry) => {
+          const timestamp = new Date().toISOString();
+          const record: CheckpointFileRecord = {
+            key: file.key,
+            versionId: file.versionId,
+            isLatest: file.isLatest,
+            state: 'completed',
+            path: entry.path,
+            size: entry.size,
+            etag: file.etag,
+            contentType: file.contentType,
+            lastModified: file.lastModified?.toISOString(),
+            metadata: file.metadata,
+            cid: entry.cid,
+            dagByteLength: entry.dagByteLength,
+            shards: entry.shards,
+            updatedAt: timestamp
+          };
+          await this.checkpointStore.recordFiles(jobId, [record]);
+          scan.sidecarRecords?.push(record);
+          await manifestWriter.append([this.toManifestEntry(record)]);
+          scan.uploadedFiles++;
+          this.eventManager.emit("fileComplete", file.key, entry);
+        },
+        onFileFailed: async (file, error) => {
+          failedFiles.push({ file: file.key, error });
+          await this.checkpointStore.recordFiles(jobId, [{
+            key: file.key,
+            versionId: file.versionId,
+            state: 'failed',
+            error: error.message,
+            updatedAt: new Date().toISOString()
+          }]);
+          this.eventManager.emit("error", error, file.key);
+        },
+        additionalFiles: scan.sidecarRecords
+          ? async () => this.canWriteSidecar(resolver) ? [this.createMetadataSidecar(scan.sidecarRecords ?? [])] : []
+          : undefined
+      });
+      // A listing that failed midway must not pass for a complete directory
+      if (scan.error) throw scan.error;
+
+      const removedRecords = findRemovedRecords();
+      scan.sync.removed.push(...removedRecords.map(([id]) => id));
+      job.status = result.success ? 'completed' : 'failed';
+      if (result.success) {
+        job.rootCid = result.cid;
+        await this.checkpointStore.recordFiles(jobId, removedRecords.map(([, record]) => ({
+          key: record.key,
+          versionId: record.versionId,
+          state: 'removed' as const,
+          updatedAt: new Date().toISOString()
+        })));
+      }
+      job.updatedAt = new Date().toISOString();
+      await this.checkpointStore.saveJob(job);
+
+      if (result.success && result.cid) {
+        await manifestWriter.append([{
+          type: 'directory',
+          key: directoryPath,
+          size: result.size ?? 0,
+          cid: result.cid,
+          path: '',
+          directoryCidPath: result.cid,
+          timestamp: job.updatedAt
+        }]);
+      }
+      const deleteMarkerEntries: ManifestEntry[] = scan.deleteMarkers.map((marker) => ({
+        type: 'deleteMarker',
+        key: marker.key,
+        versionId: marker.versionId,
+        isLatest: marker.isLatest,
+        size: 0,
+        cid: '',
+        path: '',
+        timestamp: marker.lastModified?.toISOString() ?? job.updatedAt
+      }));
+      await manifestWriter.append(deleteMarkerEntries);
+      const manifest = await this.buildManifest(jobId, scan.seen, manifestWriter, result.cid);
+      manifest.entries.push(...deleteMarkerEntries);
+
+      const completedFiles = scan.sync.unchanged + scan.uploadedFiles;
+      this.updateProgress(result.success ? 'completed' : 'failed', result.success ? 'completed' : 'error', {
+        completedFiles,
+        failedFiles: failedFiles.length,
+        percentage: 100
+      });
+
+      return {
+        success: result.success,
+        jobId,
+        cid: result.cid,
+        url: result.url,
+        size: result.size,
+        error: result.error,
+        failedFiles,
+        completedFiles,
+        totalFiles: scan.seen.size,
+        skippedFiles: scan.skipped,
+        pathCollisions: resolver.collisions,
+        deleteMarkers: scan.deleteMarkers,
+        awaitingRestore: parked,
+        manifest,
+        sync: scan.sync
+      };
+    }, `migrate directory ${job.directoryPath}`);
+  }
+
+  /**
+   * Walks a streamed listing once, linking files unchanged since an earlier
+   * run into `scan.existingEntries` and yielding the ones to upload. Only
+   * directory links and object IDs are kept. Checkpoint records, and rows
+   * for reused files when `reusedRows` is given, are written a batch at a
+   * time before the batch's files are passed on.
+   */
+  private async *scanDirectory(
+    jobId: string,
+    listing: AsyncIterable<S3ObjectEntry>,
+    records: Map<string, CheckpointFileRecord>,
+    resolver: DirectoryPathResolver,
+    scan: DirectoryScan,
+    reusedRows?: ManifestWriter
+  ): AsyncGenerator<S3ObjectEntry> {
+    let updates: CheckpointFileRecord[] = [];
+    let rows: ManifestEntry[] = [];
+    let pending: S3ObjectEntry[] = [];
+    const flush = async () => {
+      await this.checkpointStore.recordFiles(jobId, updates);
+      await reusedRows?.append(rows);
+      const batch = pending;
+      updates = [];
+      rows = [];
+      pending = [];
+      return batch;
+    };
+
+    try {
+      for await (const entry of listing) {
+        const path = resolver.claim(entry);
+        if (path === undefined) {
+          const collision = resolver.collisions[resolver.collisions.length - 1];
+          this.logger.warn(`⚠️ Path collision: ${collision.key} maps to ${collision.path}, already used by ${collision.conflictingKey}`);
+          continue;
+        }
+        const id = objectId(entry.key, entry.versionId);
+        scan.seen.add(id);
+
+        const record = records.get(id);
+        if (record?.state === 'completed' && record.cid && record.path && this.isUnchanged(record, entry)) {
+          // CIDs do not depend on the path, so reused files follow the current path options
+          scan.existingEntries.push({
+            path,
+            cid: record.cid,
+            size: record.size ?? 0,
+            dagByteLength: record.dagByteLength ?? 0,
+            shards: record.shards
+          });
+          const reused = { ...record, path, isLatest: entry.isLatest };
+          if (record.path !== path) scan.movedFiles++;
+          if (record.path !== path || record.isLatest !== entry.isLatest) updates.push(reused);
+          scan.sidecarRecords?.push(reused);
+          if (reusedRows) rows.push(this.toManifestEntry(reused));
+          scan.sync.unchanged++;
+        } else {
+          if (record?.state === 'completed' && record.cid && record.path) {
+            scan.sync.modified.push(id);
+          } else {
+            scan.sync.added.push(id);
+          }
+          if (!record) {
+            updates.push({ key: entry.key, versionId: entry.versionId, state: 'pending', updatedAt: new Date().toISOString() });
+          }
+          pending.push(entry);
+        }
+
+        if (updates.length + rows.length + pending.length >= SCAN_BATCH_SIZE) yield* await flush();
+      }
+      yield* await flush();
+    } catch (error) {
+      scan.error = error;
+      throw error;
+    }
+
+    if (scan.skipped.length > 0) {
+      this.logger.info(`⏭ Skipped ${scan.skipped.length} files excluded by filters`);
+    }
+    if (scan.deleteMarkers.length > 0) {
+      this.logger.info(`🪦 Found ${scan.deleteMarkers.length} delete markers`);
+    }
+    if (scan.existingEntries.length > 0) {
+      this.logger.info(`⏭ Reused ${scan.existingEntries.length} unchanged files from a previous run`);
+    }
+    const remainingFiles = scan.sync.added.length + scan.sync.modified.length;
+    this.eventManager.updateProgress({
+      totalFiles: scan.seen.size,
+      completedFiles: scan.sync.unchanged + scan.uploadedFiles,
+      remainingFiles,
+      totalBatches: Math.ceil(remainingFiles / (this.migrationOptions?.batchSize || this.config.batch.size))
+    });
+  }
+
+  private async openSourceJob(
+    jobId: string,
+    bucketName: string,
+    directoryPath: string,
+    space?: string
+  ): Promise<MigrationJob> {
+    const existingJob = await this.checkpointStore.loadJob(jobId);
+    if (existingJob) {
+      if (existingJob.bucketName !== bucketName || existingJob.directoryPath !== directoryPath) {
+        throw new Error(`Migration job ${jobId} was created for ${existingJob.bucketName}/${existingJob.directoryPath}`);
+      }
+      return { ...existingJob, space };
+    }
+
+    const now = new Date().toISOString();
+    const job: MigrationJob = {
+      jobId,
+      bucketName,
+      directoryPath,
+      status: 'running',
+      space,
+      createdAt: now,
+      updatedAt: now
+    };
+    await this.checkpointStore.saveJob(job);
+    return job;
+  }
+
+  private createBucketService(overrides: Partial<S3ServiceConfig> & { bucketName: string }): S3Service {
+    const service = new S3Service(createBucketConfig(this.config.s3, overrides), this.eventManager);
+    this.bucketServices.set(overrides.bucketName, service);
+    return service;
+  }
+
+  private createObjectFilter(directoryPath: string, s3Service: S3Service): ObjectFilter {
+    return new ObjectFilter(
+      this.migrationOptions?.filters,
+      directoryPath,
+      async (entry) => (await s3Service.headObject(entry.key, entry.versionId)).contentType
+    );
+  }
+
+  /**
+   * Streams the objects a migration covers. Delete markers and objects left
+   * out by the filters or the version window are collected on `selection`
+   * as the listing goes.
+   */
+  private async *listSelectedObjects(
+    directoryPath: string,
+    s3Service: S3Service,
+    selection: ObjectSelection,
+    inventory?: InventorySource
+  ): AsyncGenerator<S3ObjectEntry> {
+    const filter = this.createObjectFilter(directoryPath, s3Service);
+    const versions = this.migrationOptions?.versions;
+    const listing = inventory
+      ? this.inventoryService.listObjects(inventory, directoryPath, { versions: !!versions })
+      : versions
+        ? s3Service.listObjectVersionsInS3Directory(directoryPath)
+        : s3Service.listObjectsInS3Directory(directoryPath);
+
+    // Content-type filters send a HEAD request per object, so objects are
+    // checked `concurrency` at a time
+    const checked = mapWithConcurrency(
+      numbered(listing),
+      this.migrationOptions?.concurrency || this.config.batch.concurrency,
+      async ({ index, entry }) => {
+        const windowReason = versions && this.getVersionWindowSkipReason(versions, entry.lastModified);
+        const deleteMarker = !!(entry as S3ObjectVersion).deleteMarker;
+        const reason = windowReason || (deleteMarker ? undefined : await filter.getSkipReason(entry));
+        return { index, entry, deleteMarker, reason };
+      }
+    );
+
+    // Checks finish out of order; objects are passed on in listing order so
+    // the first key listed keeps a contested path
+    const finished = new Map<number, { entry: S3ObjectEntry; deleteMarker: boolean; reason?: string }>();
+    let nextIndex = 0;
+    for await (const result of checked) {
+      finished.set(result.index, result);
+      for (let ready = finished.get(nextIndex); ready; ready = finished.get(nextIndex)) {
+        finished.delete(nextIndex++);
+        const { entry, deleteMarker, reason } = ready;
+        if (deleteMarker) {
+          const marker = entry as S3ObjectVersion;
+          if (!reason) {
+            selection.deleteMarkers.push({
+              key: marker.key,
+              versionId: marker.versionId,
+              isLatest: marker.isLatest,
+              lastModified: marker.lastModified
+            });
+          }
+        } else if (reason) {
+          selection.skipped.push({ key: entry.key, versionId: entry.versionId, size: entry.size, reason });
+        } else {
+          yield entry;
+        }
+      }
+    }
+  }
+
+  /**
+   * Streams the files a migration would upload, selected the same way:
+   * objects whose path is taken and files unchanged since the job's last
+   * run are left out and recorded as skipped
+   */
+  private async *listPlannedFiles(
+    directoryPath: string,
+    selection: ObjectSelection,
+    records: Map<string, CheckpointFileRecord>,
+    inventory?: InventorySource
+  ): AsyncGenerator<S3ObjectEntry> {
+    const resolver = new DirectoryPathResolver(directoryPath, this.migrationOptions?.paths);
+    for await (const entry of this.listSelectedObjects(directoryPath, this.s3Service, selection, inventory)) {
+      const skip = { key: entry.key, versionId: entry.versionId, size: entry.size };
+      if (resolver.claim(entry) === undefined) {
+        const { path, conflictingKey } = resolver.collisions[resolver.collisions.length - 1];
+        selection.skipped.push({ ...skip, reason: `path ${path} already used by ${conflictingKey}` });
+        continue;
+      }
+
+      const record = records.get(objectId(entry.key, entry.versionId));
+      if (record?.state === 'completed' && record.cid && this.isUnchanged(record, entry)) {
+        selection.skipped.push({ ...skip, reason: 'completed in previous run' });
+        continue;
+      }
+      yield entry;
+    }
+  }
+
+  private getVersionWindowSkipReason(versions: VersionOptions, lastModified?: Date): string | undefined {
+    if (!lastModified) return undefined;
+    if (versions.modifiedAfter && lastModified < versions.modifiedAfter) {
+      return `version created before ${versions.modifiedAfter.toISOString()}`;
+    }
+    if (versions.modifiedBefore && lastModified > versions.modifiedBefore) {
+      return `version created after ${versions.modifiedBefore.toISOString()}`;
+    }
+    return undefined;
+  }
+
+  private async buildManifest(
+    jobId: string,
+    ids: Set<string>,
+    manifestWriter: ManifestWriter,
+    rootCid?: string
+  ): Promise<MigrationManifest> {
+    const records = await this.checkpointStore.loadFiles(jobId);
+    const entries: ManifestEntry[] = [];
+
+    for (const id of ids) {
+      const record = records.get(id);
+      if (record?.state !== 'completed' || !record.cid || !record.path) continue;
+      entries.push(this.toManifestEntry(record, rootCid));
+    }
+
+    return {
+      rootCid,
+      entries,
+      jsonlPath: manifestWriter.jsonlPath,
+      csvPath: manifestWriter.csvPath
+    };
+  }
+
+  private toManifestEntry(record: CheckpointFileRecord, rootCid?: string): ManifestEntry {
+    return {
+      type: 'file',
+      key: record.key,
+      versionId: record.versionId,
+      isLatest: record.isLatest,
+      size: record.size ?? 0,
+      etag: record.etag,
+      contentType: record.contentType,
+      metadata: record.metadata,
+      cid: record.cid ?? '',
+      path: record.path ?? '',
+      directoryCidPath: rootCid ? `${rootCid}/${record.path}` : undefined,
+      timestamp: record.updatedAt
+    };
+  }
+
+  /**
+   * Opens the files to upload as they arrive. Archived objects are parked
+   * until restored; once the others are open they are checkpointed as
+   * awaiting restore and, with `archive.wait`, opened as restores complete.
+   */
+  private async *fetchPendingFiles(
+    jobId: string,
+    s3Service: S3Service,
+    pending: AsyncIterable<S3ObjectEntry>,
+    parked: ArchivedObject[],
+    concurrency: number,
+    fetchOptions: FetchOptions
+  ): AsyncGenerator<FileData | FailedFile> {
+    const archive = this.migrationOptions?.archive;
+    const restoreService = new RestoreService(s3Service);
+    yield* s3Service.fetchFiles(
+      restoreService.partition(pending, archive, concurrency, parked),
+      concurrency,
+      fetchOptions
+    );
+    if (parked.length === 0) return;
+
+    this.logger.info(`🧊 ${parked.length} archived files are awaiting restore`);
+    const now = new Date().toISOString();
+    await this.checkpointStore.recordFiles(jobId, parked.map((object) => ({
+      key: object.key,
+      versionId: object.versionId,
+      state: 'awaitingRestore' as const,
+      size: object.size,
+      etag: object.etag,
+      updatedAt: now
+    })));
+    if (!archive?.wait) return;
+
+    for await (const entry of restoreService.waitForRestores(parked, archive)) {
+      try {
+        const file = await s3Service.fetchFileFromS3(entry.key, entry.versionId, fetchOptions);
+        file.isLatest = entry.isLatest;
+        yield file;
+      } catch (error) {
+        yield {
+          key: entry.key,
+          versionId: entry.versionId,
+          error: error instanceof Error ? error : new Error(String(error))
+        };
+      }
+    }
+  }
+
+  private canWriteSidecar(resolver: DirectoryPathResolver): boolean {
+    const conflictingKey = resolver.fileAt(METADATA_SIDECAR);
+    if (conflictingKey) {
+      this.logger.warn(`⚠️ Not writing ${METADATA_SIDECAR}: ${conflictingKey} already uses that path`);
+    }
+    return !conflictingKey;
+  }
+
+  /**
+   * Builds the `_metadata.json` file that maps every path in the directory
+   * to the S3 key and headers it came from
+   */
+  private createMetadataSidecar(records: CheckpointFileRecord[]): FileData {
+    const sidecar: Record<string, object> = {};
+    for (const record of [...records].sort((a, b) => (a.path ?? '').localeCompare(b.path ?? ''))) {
+      if (!record.path) continue;
+      sidecar[record.path] = {
+        key: record.key,
+        versionId: record.versionId,
+        contentType: record.contentType,
+        ...record.metadata
+      };
+    }
+
+    const bytes = new TextEncoder().encode(JSON.stringify(sidecar, null, 2));
+    return {
+      key: METADATA_SIDECAR,
+      fileName: METADATA_SIDECAR,
+      size: bytes.length,
+      stream: () => new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(bytes);
+          controller.close();
+        }
+      })
+    };
+  }
+
+  private async *withDirectoryPaths(
+    files: AsyncIterable<FileData | FailedFile>,
+    resolver: DirectoryPathResolver
+  ): AsyncGenerator<FileData | FailedFile> {
+    for await (const file of files) {
+      if ('error' in file) {
+        yield file;
+        continue;
+      }
+      // Set in place: headers read along with the body land on this object
+      file.fileName = resolver.pathOf(file);
+      yield file;
+    }
+  }
+
+  private isUnchanged(record: CheckpointFileRecord, entry: S3ObjectEntry): boolean {
+    if (record.size !== entry.size) return false;
+    if (record.etag && entry.etag && record.etag !== entry.etag) return false;
+    if (record.lastModified && entry.lastModified) {
+      return new Date(record.lastModified).getTime() === entry.lastModified.getTime();
+    }
+    return true;
+  }
+
   private updateProgress(
     phase: MigrationProgress['phase'],
     status: MigrationProgress['status'],
@@ -1,2 +1,4 @@
 export { StorachaMigrator } from './StorachaMigrator.js';
-export type { MigrationProgress, StorachaMigratorConfig, FileData, UploadResponse, SpaceResponse, Logger } from './types/index.js';
+export { JsonFileCheckpointStore } from './services/checkpointStore.js';
+export { objectId } from './utils/objectId.js';
+export type { MigrationProgress, StorachaMigratorConfig, FileData, UploadResponse, SpaceResponse, Logger, S3ObjectEntry, MigrationResult, DirectoryMigrationOptions, CheckpointStore, CheckpointFileRecord, MigrationJob, ManifestEntry, MigrationManifest, VerificationOptions, VerificationReport, VerificationResult, PlanOptions, MigrationPlan, SkippedObject, MigrationOptions, MigrationFilters, PathOptions, PathCollision, S3ServiceConfig, S3Credentials, S3CredentialProvider, S3AssumeRoleConfig, MigrationSource, MultiSourceJob, MultiSourceMigrationResult, SourceMigrationResult, VersionOptions, S3DeleteMarker, ArchiveOptions, ArchivedObject, RestoreTier, ObjectMetadata, MetadataOptions, RangedDownloadConfig, PartProgress, SseCustomerKeyConfig, SseCustomerKey, InventorySource, AgentStoreConfig, FileMigrationOptions, CreateSpaceOptions, SpaceInfo, SpaceDelegation, FailedFile, DirectoryMigrationResult } from './types/index.js';
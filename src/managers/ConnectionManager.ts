@@ -1,6 +1,7 @@
 import { S3Client } from "@aws-sdk/client-s3";
 import { StorachaMigratorConfig } from "../types/index.js";
 import { StorachaClient } from "../services/storachaService.js";
+import { createS3Client } from "../utils/s3ClientFactory.js";
 
 export class ConnectionManager {
   private s3Connection: S3Client | null = null;
@@ -13,18 +14,14 @@ export class ConnectionManager {
 
   async initializeConnections(): Promise<void> {
     try {
-      this.s3Connection = new S3Client({
-        region: this.config.s3.region,
-        credentials: this.config.s3.credentials,
-      });
+      this.s3Connection = createS3Client(this.config.s3);
 
-      if (!this.config.storacha.email) {
-        throw new Error("Storacha email is required");
+      const { email, agentKey } = this.config.storacha;
+      if (!email && !agentKey) {
+        throw new Error("Storacha email or agent key is required");
       }
 
-      const client = new StorachaClient();
-      const validEmail = await client.validateEmail(this.config.storacha.email);
-      this.storachaConnection = await StorachaClient.connect({ email: validEmail });
+      this.storachaConnection = await StorachaClient.connect(this.config.storacha);
     } catch (error) {
       const message = error instanceof Error ? error.message : "Unknown error";
       throw new Error(`Failed to initialize connections: ${message}`);
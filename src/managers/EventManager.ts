@@ -1,5 +1,5 @@
 import { EventEmitter } from 'events';
-import { MigrationProgress, ProgressStatus, TransferProgress, ShardProgress, LogEntry } from '../types/index.js';
+import { MigrationProgress, ProgressStatus, TransferProgress, ShardProgress, LogEntry, PartProgress } from '../types/index.js';
 import fs from 'fs';
 import path from 'path';
 
@@ -231,7 +231,13 @@ export class EventManager extends EventEmitter {
     }
   }
 
-  updateFileProgress(fileKey: string, bytesProcessed: number, totalBytes: number, phase: 'download' | 'upload'): void {
+  updateFileProgress(
+    fileKey: string,
+    bytesProcessed: number,
+    totalBytes: number,
+    phase: 'download' | 'upload',
+    partProgress?: PartProgress
+  ): void {
     if (phase === 'download') {
       this.progress.downloadedBytes = bytesProcessed;
       if (this.progress.totalDownloadBytes === 0) {
@@ -246,6 +252,7 @@ export class EventManager extends EventEmitter {
     
     this.progress.currentFile = fileKey;
     this.progress.phase = phase;
+    this.progress.partProgress = partProgress;
     this.updateProgress({});
   }
 
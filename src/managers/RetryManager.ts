@@ -1,6 +1,9 @@
 import { StorachaMigratorConfig } from "../types/index.js";
 import { Logger } from "../types/index.js";
 
+// Errors that fail the same way on every attempt
+const NON_RETRYABLE_ERRORS = new Set(["InvalidObjectState"]);
+
 export class RetryManager {
   private readonly config: StorachaMigratorConfig["retry"];
   private readonly logger: Logger;
@@ -17,6 +20,11 @@ export class RetryManager {
       try {
         return await operation();
       } catch (error) {
+        if (error instanceof Error && NON_RETRYABLE_ERRORS.has(error.name)) {
+          this.logger.warn(`${context} failed with ${error.name}, not retrying`);
+          throw error;
+        }
+
         const message =
           error instanceof Error ? error.message : "Unknown error";
         lastError = new Error(message);
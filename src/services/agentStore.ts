@@ -0,0 +1,207 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { promisify } from "util";
+import type {
+  AgentDataExport,
+  ClientFactoryOptions,
+} from "@web3-storage/w3up-client/types";
+import { AgentStoreConfig } from "../types/index.js";
+
+type AgentStoreDriver = NonNullable<ClientFactoryOptions["store"]>;
+
+interface EncryptedAgentData {
+  $encrypted: { salt: string; iv: string; tag: string; data: string };
+}
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: string,
+  salt: Buffer,
+  keyLength: number
+) => Promise<Buffer>;
+
+// A lock older than this is left over from a crashed process
+const STALE_LOCK_MS = 30_000;
+const LOCK_TIMEOUT_MS = 10_000;
+
+/**
+ * Keeps the w3up agent (its signing key, delegations and spaces) in a file so
+ * the same agent identity is used across runs. Each save re-reads the file
+ * under a lock file and merges in what other migrators saved meanwhile, so
+ * several migrators on one host can share a store. With a passphrase, the
+ * contents are encrypted with AES-256-GCM.
+ */
+export class FileAgentStore implements AgentStoreDriver {
+  private readonly path: string;
+  private readonly passphrase?: string;
+
+  constructor(config: AgentStoreConfig) {
+    this.path = path.resolve(config.path);
+    this.passphrase = config.passphrase;
+  }
+
+  async open(): Promise<void> {}
+
+  async close(): Promise<void> {}
+
+  /**
+   * Loads the stored agent, or undefined if none was saved yet
+   * @returns {Promise<AgentDataExport | undefined>}
+   */
+  async load(): Promise<AgentDataExport | undefined> {
+    return this.read();
+  }
+
+  /**
+   * Saves the agent. Delegations and spaces another process saved for the
+   * same agent since this one loaded are kept, then the file is replaced
+   * atomically.
+   * @param {AgentDataExport} data - The exported agent data
+   */
+  async save(data: AgentDataExport): Promise<void> {
+    await this.withLock(async () => {
+      const stored = await this.read();
+      const merged =
+        stored && stored.principal.id === data.principal.id
+          ? mergeAgentData(stored, data)
+          : data;
+      const json = JSON.stringify(merged, replacer);
+      const contents = this.passphrase
+        ? JSON.stringify(await this.encrypt(json))
+        : json;
+
+      const temp = `${this.path}.${process.pid}.${crypto.randomUUID()}.tmp`;
+      await fs.promises.writeFile(temp, contents, { mode: 0o600 });
+      await fs.promises.rename(temp, this.path);
+    });
+  }
+
+  async reset(): Promise<void> {
+    await this.withLock(() => fs.promises.rm(this.path, { force: true }));
+  }
+
+  private async read(): Promise<AgentDataExport | undefined> {
+    let contents: string;
+    try {
+      contents = await fs.promises.readFile(this.path, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    }
+
+    const stored = JSON.parse(contents, reviver);
+    if (!stored?.$encrypted) {
+      if (this.passphrase) {
+        console.warn(`⚠️ Agent store ${this.path} is not encrypted; it will be on the next save`);
+      }
+      return stored as AgentDataExport;
+    }
+    return JSON.parse(await this.decrypt(stored), reviver) as AgentDataExport;
+  }
+
+  private async encrypt(json: string): Promise<EncryptedAgentData> {
+    const salt = crypto.randomBytes(16);
+    const iv = crypto.randomBytes(12);
+    const key = await scrypt(this.passphrase as string, salt, 32);
+    const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+    const data = Buffer.concat([cipher.update(json, "utf8"), cipher.final()]);
+
+    return {
+      $encrypted: {
+        salt: salt.toString("base64"),
+        iv: iv.toString("base64"),
+        tag: cipher.getAuthTag().toString("base64"),
+        data: data.toString("base64"),
+      },
+    };
+  }
+
+  private async decrypt({ $encrypted }: EncryptedAgentData): Promise<string> {
+    if (!this.passphrase) {
+      throw new Error(`Agent store ${this.path} is encrypted; set agentStore.passphrase`);
+    }
+
+    const key = await scrypt(this.passphrase, Buffer.from($encrypted.salt, "base64"), 32);
+    const decipher = crypto.createDecipheriv(
+      "aes-256-gcm",
+      key,
+      Buffer.from($encrypted.iv, "base64")
+    );
+    decipher.setAuthTag(Buffer.from($encrypted.tag, "base64"));
+    try {
+      return Buffer.concat([
+        decipher.update(Buffer.from($encrypted.data, "base64")),
+        decipher.final(),
+      ]).toString("utf8");
+    } catch {
+      throw new Error(`Could not decrypt agent store ${this.path}; check the passphrase`);
+    }
+  }
+
+  private async withLock<T>(action: () => Promise<T>): Promise<T> {
+    const lockPath = `${this.path}.lock`;
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+    await fs.promises.mkdir(path.dirname(this.path), { recursive: true });
+
+    for (;;) {
+      try {
+        const handle = await fs.promises.open(lockPath, "wx");
+        await handle.close();
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+        const stat = await fs.promises.stat(lockPath).catch(() => undefined);
+        if (stat && Date.now() - stat.mtimeMs > STALE_LOCK_MS) {
+          await fs.promises.rm(lockPath, { force: true });
+          continue;
+        }
+        if (Date.now() > deadline) {
+          throw new Error(`Timed out waiting for agent store lock ${lockPath}`);
+        }
+        await new Promise((resolve) => setTimeout(resolve, 50));
+      }
+    }
+
+    try {
+      return await action();
+    } finally {
+      await fs.promises.rm(lockPath, { force: true });
+    }
+  }
+}
+
+// This process's entries win; removals are not carried over, and expired delegations are ignored on use
+function mergeAgentData(
+  stored: AgentDataExport,
+  data: AgentDataExport
+): AgentDataExport {
+  return {
+    ...data,
+    spaces: new Map([...stored.spaces, ...data.spaces]),
+    delegations: new Map([...stored.delegations, ...data.delegations]),
+  };
+}
+
+// Agent data holds Maps, byte arrays and URLs, which JSON does not round-trip.
+// URLs are already turned into strings by their toJSON, so the holder's
+// original value is checked.
+function replacer(this: any, key: string, value: any): any {
+  if (this[key] instanceof URL) return { $url: this[key].toString() };
+  if (value instanceof Map) return { $map: [...value.entries()] };
+  if (value instanceof Uint8Array) return { $bytes: Buffer.from(value).toString("base64") };
+  if (value instanceof ArrayBuffer) return { $bytes: Buffer.from(value).toString("base64") };
+  if (value?.type === "Buffer" && Array.isArray(value.data)) {
+    return { $bytes: Buffer.from(value.data).toString("base64") };
+  }
+  return value;
+}
+
+function reviver(_key: string, value: any): any {
+  if (!value) return value;
+  if (value.$url) return new URL(value.$url);
+  if (value.$map) return new Map(value.$map);
+  if (typeof value.$bytes === "string") {
+    return new Uint8Array(Buffer.from(value.$bytes, "base64"));
+  }
+  return value;
+}
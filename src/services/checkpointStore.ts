@@ -0,0 +1,98 @@
+import fs from "fs";
+import path from "path";
+import {
+  CheckpointFileRecord,
+  CheckpointStore,
+  MigrationJob,
+} from "../types/index.js";
+import { objectId } from "../utils/objectId.js";
+
+/**
+ * Default checkpoint store. Each job is kept as a small JSON document plus an
+ * append-only JSON Lines log of per-key records, so recording progress never
+ * rewrites the whole job and a crash loses at most the line being written.
+ */
+export class JsonFileCheckpointStore implements CheckpointStore {
+  private readonly directory: string;
+
+  constructor(directory?: string) {
+    this.directory = directory ?? path.join(process.cwd(), "checkpoints");
+  }
+
+  /**
+   * Loads the job document for a migration
+   * @param {string} jobId - The migration job ID
+   * @returns {Promise<MigrationJob | undefined>}
+   */
+  async loadJob(jobId: string): Promise<MigrationJob | undefined> {
+    try {
+      const contents = await fs.promises.readFile(this.jobPath(jobId), "utf8");
+      return JSON.parse(contents) as MigrationJob;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  /**
+   * Writes the job document, replacing it atomically
+   * @param {MigrationJob} job - The migration job
+   */
+  async saveJob(job: MigrationJob): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    const target = this.jobPath(job.jobId);
+    const temp = `${target}.tmp`;
+    await fs.promises.writeFile(temp, JSON.stringify(job, null, 2));
+    await fs.promises.rename(temp, target);
+  }
+
+  /**
+   * Replays the record log of a job, keeping the latest record per key
+   * @param {string} jobId - The migration job ID
+   * @returns {Promise<Map<string, CheckpointFileRecord>>}
+   */
+  async loadFiles(jobId: string): Promise<Map<string, CheckpointFileRecord>> {
+    const records = new Map<string, CheckpointFileRecord>();
+    let contents: string;
+    try {
+      contents = await fs.promises.readFile(this.filesPath(jobId), "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return records;
+      throw error;
+    }
+
+    for (const line of contents.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const record = JSON.parse(line) as CheckpointFileRecord;
+        records.set(objectId(record.key, record.versionId), record);
+      } catch {
+        // A torn final line from an interrupted write is ignored
+      }
+    }
+    return records;
+  }
+
+  /**
+   * Appends per-key records to the job's record log
+   * @param {string} jobId - The migration job ID
+   * @param {CheckpointFileRecord[]} records - Records to append
+   */
+  async recordFiles(
+    jobId: string,
+    records: CheckpointFileRecord[]
+  ): Promise<void> {
+    if (records.length === 0) return;
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    const lines = records.map((record) => JSON.stringify(record)).join("\n");
+    await fs.promises.appendFile(this.filesPath(jobId), `${lines}\n`);
+  }
+
+  private jobPath(jobId: string): string {
+    return path.join(this.directory, `${encodeURIComponent(jobId)}.json`);
+  }
+
+  private filesPath(jobId: string): string {
+    return path.join(this.directory, `${encodeURIComponent(jobId)}.files.jsonl`);
+  }
+}
@@ -0,0 +1,186 @@
+import fs from "fs";
+import path from "path";
+import readline from "readline";
+import zlib from "zlib";
+import { Readable } from "stream";
+import { S3Service } from "./s3Service.js";
+import { createBucketConfig } from "../utils/s3ClientFactory.js";
+import {
+  InventoryManifest,
+  InventorySource,
+  S3ObjectVersion,
+  S3ServiceConfig,
+} from "../types/index.js";
+
+type ReportReader = (bucket: string, key: string) => Promise<Readable>;
+
+export class InventoryService {
+  private readonly s3Config: S3ServiceConfig;
+
+  constructor(s3Config: S3ServiceConfig) {
+    this.s3Config = s3Config;
+  }
+
+  /**
+   * Reads an S3 Inventory report and yields the objects under a prefix, as
+   * `listObjectsInS3Directory` (or `listObjectVersionsInS3Directory` when
+   * `versions` is set) would. Data files are streamed one at a time, so
+   * reports with billions of rows are never held in memory.
+   * @param {InventorySource} source - Where the inventory manifest is
+   * @param {string} directoryPath - The S3 directory (prefix)
+   * @param {object} options - Whether to yield every version and delete marker
+   * @returns {AsyncGenerator<S3ObjectVersion>}
+   */
+  async *listObjects(
+    source: InventorySource,
+    directoryPath: string,
+    options: { versions?: boolean } = {}
+  ): AsyncGenerator<S3ObjectVersion> {
+    const readS3Object = this.createReportReader(source);
+    const manifest = await this.readManifest(source, readS3Object);
+    if (manifest.sourceBucket !== this.s3Config.bucketName) {
+      throw new Error(
+        `Inventory ${source.manifest} lists bucket ${manifest.sourceBucket}, not ${this.s3Config.bucketName}`
+      );
+    }
+    if (manifest.fileFormat !== "CSV") {
+      throw new Error(`Unsupported inventory format ${manifest.fileFormat}; only CSV inventories can be read`);
+    }
+
+    const columns = manifest.fileSchema.split(",").map((column) => column.trim());
+    const column = (name: string) => columns.indexOf(name);
+    const keyColumn = column("Key");
+    if (keyColumn === -1) {
+      throw new Error(`Inventory ${source.manifest} has no Key column`);
+    }
+    if (options.versions && column("VersionId") === -1) {
+      throw new Error(`Inventory ${source.manifest} does not include object versions`);
+    }
+
+    console.log(`📒 Reading ${manifest.files.length} inventory files for ${manifest.sourceBucket}`);
+    for (const file of manifest.files) {
+      for await (const line of this.readDataFile(source, manifest, file.key, readS3Object)) {
+        if (!line) continue;
+        const fields = parseCsvLine(line);
+        const field = (name: string) => {
+          const index = column(name);
+          return index === -1 ? undefined : fields[index] || undefined;
+        };
+
+        // Keys in inventory reports are URL-encoded
+        const key = decodeURIComponent(fields[keyColumn].replace(/\+/g, " "));
+        if (!key.startsWith(directoryPath)) continue;
+
+        const isLatest = field("IsLatest") !== "false";
+        const deleteMarker = field("IsDeleteMarker") === "true";
+        if (!options.versions && (!isLatest || deleteMarker)) continue;
+
+        const lastModified = field("LastModifiedDate");
+        yield {
+          key,
+          size: Number(field("Size")) || 0,
+          etag: field("ETag"),
+          lastModified: lastModified ? new Date(lastModified) : undefined,
+          storageClass: field("StorageClass"),
+          ...(options.versions && {
+            versionId: field("VersionId") ?? "null",
+            isLatest,
+            deleteMarker,
+          }),
+        } as S3ObjectVersion;
+      }
+    }
+  }
+
+  private async readManifest(
+    source: InventorySource,
+    readS3Object: ReportReader
+  ): Promise<InventoryManifest> {
+    const location = parseS3Url(source.manifest);
+    const body = location
+      ? await readS3Object(location.bucket, location.key)
+      : fs.createReadStream(source.manifest);
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of body) chunks.push(Buffer.from(chunk));
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  }
+
+  private async *readDataFile(
+    source: InventorySource,
+    manifest: InventoryManifest,
+    fileKey: string,
+    readS3Object: ReportReader
+  ): AsyncGenerator<string> {
+    let body: Readable;
+    if (parseS3Url(source.manifest)) {
+      // destinationBucket is an ARN such as arn:aws:s3:::inventory-bucket
+      const bucket = manifest.destinationBucket.split(":").pop() as string;
+      body = await readS3Object(bucket, fileKey);
+    } else {
+      // Local copies keep the report layout: <config>/<date>/manifest.json and <config>/data/
+      const dataDirectory =
+        source.dataDirectory ?? path.join(path.dirname(source.manifest), "..", "data");
+      body = fs.createReadStream(path.join(dataDirectory, path.basename(fileKey)));
+    }
+
+    const lines = readline.createInterface({
+      input: fileKey.endsWith(".gz") ? body.pipe(zlib.createGunzip()) : body,
+      crlfDelay: Infinity,
+    });
+    yield* lines;
+  }
+
+  // Reads every file of a report with one S3 service per bucket, so
+  // credentials are resolved (or a role assumed) once per report
+  private createReportReader(source: InventorySource): ReportReader {
+    const services = new Map<string, S3Service>();
+    return async (bucket, key) => {
+      let s3Service = services.get(bucket);
+      if (!s3Service) {
+        s3Service = new S3Service(
+          createBucketConfig(this.s3Config, { ...source.s3, bucketName: bucket })
+        );
+        services.set(bucket, s3Service);
+      }
+      const file = await s3Service.fetchFileFromS3(key);
+      return Readable.fromWeb(file.stream() as any);
+    };
+  }
+}
+
+function parseS3Url(url: string): { bucket: string; key: string } | undefined {
+  const match = /^s3:\/\/([^/]+)\/(.+)$/.exec(url);
+  return match ? { bucket: match[1], key: match[2] } : undefined;
+}
+
+// Inventory CSV rows quote every field and escape quotes by doubling them
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field);
+  return fields;
+}
@@ -0,0 +1,75 @@
+import fs from "fs";
+import path from "path";
+import { ManifestEntry } from "../types/index.js";
+
+const CSV_COLUMNS: Array<keyof ManifestEntry> = [
+  "type",
+  "key",
+  "versionId",
+  "isLatest",
+  "size",
+  "etag",
+  "contentType",
+  "metadata",
+  "cid",
+  "path",
+  "directoryCidPath",
+  "timestamp",
+  "source",
+  "bucket",
+  "space",
+];
+
+/**
+ * Appends manifest entries to a JSON Lines and a CSV file as a migration
+ * progresses. File rows carry their path inside the directory; the directory
+ * row written once the root is known carries the root CID those paths are
+ * relative to.
+ */
+export class ManifestWriter {
+  readonly jsonlPath: string;
+  readonly csvPath: string;
+  private readonly directory: string;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(jobId: string, directory?: string) {
+    this.directory = directory ?? path.join(process.cwd(), "manifests");
+    const baseName = encodeURIComponent(jobId);
+    this.jsonlPath = path.join(this.directory, `${baseName}.jsonl`);
+    this.csvPath = path.join(this.directory, `${baseName}.csv`);
+  }
+
+  /**
+   * Appends entries to both manifest files. Writes are serialized so rows
+   * from concurrent uploads never interleave.
+   * @param {ManifestEntry[]} entries - Entries to append
+   */
+  append(entries: ManifestEntry[]): Promise<void> {
+    const write = this.pending.then(() => this.write(entries));
+    this.pending = write.catch(() => undefined);
+    return write;
+  }
+
+  private async write(entries: ManifestEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    await fs.promises.mkdir(this.directory, { recursive: true });
+
+    if (!fs.existsSync(this.csvPath)) {
+      await fs.promises.writeFile(this.csvPath, `${CSV_COLUMNS.join(",")}\n`);
+    }
+
+    const jsonLines = entries.map((entry) => JSON.stringify(entry)).join("\n");
+    const csvRows = entries.map((entry) => this.toCsvRow(entry)).join("\n");
+    await fs.promises.appendFile(this.jsonlPath, `${jsonLines}\n`);
+    await fs.promises.appendFile(this.csvPath, `${csvRows}\n`);
+  }
+
+  private toCsvRow(entry: ManifestEntry): string {
+    return CSV_COLUMNS.map((column) => {
+      const value = entry[column];
+      if (value === undefined) return "";
+      const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+      return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    }).join(",");
+  }
+}
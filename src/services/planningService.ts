@@ -0,0 +1,89 @@
+import {
+  MigrationPlan,
+  PlanOptions,
+  S3DeleteMarker,
+  S3ObjectEntry,
+  SkippedObject,
+} from "../types/index.js";
+
+// Default CAR shard size used by the upload-client
+const DEFAULT_SHARD_SIZE = 133_169_152;
+
+interface PlanContext {
+  batchSize: number;
+  // Filled in by the listing as it streams, like a migration's
+  skipped: SkippedObject[];
+  deleteMarkers: S3DeleteMarker[];
+}
+
+export class PlanningService {
+  /**
+   * Summarizes what a directory migration would transfer, without
+   * downloading or uploading anything
+   * @param {string} directoryPath - The S3 directory (prefix)
+   * @param {AsyncIterable<S3ObjectEntry>} files - Objects the migration would upload, selected as it would
+   * @param {PlanContext} context - Batch size, and what the selection left out
+   * @param {PlanOptions} options - Planning options
+   * @returns {Promise<MigrationPlan>}
+   */
+  async planDirectory(
+    directoryPath: string,
+    files: AsyncIterable<S3ObjectEntry>,
+    { batchSize, skipped, deleteMarkers }: PlanContext,
+    options: PlanOptions = {}
+  ): Promise<MigrationPlan> {
+    const largestCount = options.largestObjects ?? 10;
+    const shardSize = options.shardSize ?? DEFAULT_SHARD_SIZE;
+    const plan: MigrationPlan = {
+      directoryPath,
+      totalFiles: 0,
+      totalBytes: 0,
+      storageClasses: {},
+      largestObjects: [],
+      skipped,
+      deleteMarkers,
+      estimatedShards: 0,
+      estimatedBatches: 0,
+    };
+
+    for await (const entry of files) {
+      plan.totalFiles++;
+      plan.totalBytes += entry.size;
+
+      const storageClass = entry.storageClass ?? "STANDARD";
+      const classTotals = (plan.storageClasses[storageClass] ??= {
+        files: 0,
+        bytes: 0,
+      });
+      classTotals.files++;
+      classTotals.bytes += entry.size;
+
+      // Every file is uploaded as its own CAR, split once it exceeds a shard
+      plan.estimatedShards += Math.max(1, Math.ceil(entry.size / shardSize));
+      this.trackLargest(plan.largestObjects, entry, largestCount);
+    }
+
+    if (plan.totalFiles > 0) {
+      // One more shard holds the directory nodes linking the files together
+      plan.estimatedShards++;
+      plan.estimatedBatches = Math.ceil(plan.totalFiles / batchSize);
+    }
+
+    return plan;
+  }
+
+  private trackLargest(
+    largest: S3ObjectEntry[],
+    entry: S3ObjectEntry,
+    limit: number
+  ): void {
+    if (limit <= 0) return;
+    if (largest.length === limit && entry.size <= largest[limit - 1].size) {
+      return;
+    }
+
+    const index = largest.findIndex((item) => entry.size > item.size);
+    largest.splice(index === -1 ? largest.length : index, 0, entry);
+    if (largest.length > limit) largest.pop();
+  }
+}
@@ -0,0 +1,119 @@
+import { S3Service, isArchiveStorageClass } from "./s3Service.js";
+import { mapWithConcurrency } from "../utils/concurrency.js";
+import {
+  ArchiveOptions,
+  ArchivedObject,
+  S3ObjectEntry,
+  S3RestoreStatus,
+} from "../types/index.js";
+
+export class RestoreService {
+  private readonly s3Service: S3Service;
+
+  constructor(s3Service: S3Service) {
+    this.s3Service = s3Service;
+  }
+
+  isArchived(entry: S3ObjectEntry): boolean {
+    return isArchiveStorageClass(entry.storageClass);
+  }
+
+  /**
+   * Passes on listed objects that can be read now and parks archived ones
+   * until a restore completes. Only archived objects are checked with a
+   * HEAD request; restores are requested when enabled. Objects are yielded
+   * as they are checked, so a streamed listing is never held in full.
+   * @param {Iterable<S3ObjectEntry> | AsyncIterable<S3ObjectEntry>} entries - Listed objects to migrate
+   * @param {ArchiveOptions} options - Archive handling options
+   * @param {number} concurrency - Maximum number of concurrent requests
+   * @param {ArchivedObject[]} parked - Receives the objects awaiting restore
+   * @returns {AsyncGenerator<S3ObjectEntry>} - Objects that can be read now
+   */
+  async *partition(
+    entries: Iterable<S3ObjectEntry> | AsyncIterable<S3ObjectEntry>,
+    options: ArchiveOptions = {},
+    concurrency: number = 5,
+    parked: ArchivedObject[] = []
+  ): AsyncGenerator<S3ObjectEntry> {
+    const checked = mapWithConcurrency(entries, concurrency, async (entry) => {
+      if (!this.isArchived(entry)) return entry;
+
+      let inProgress: boolean;
+      try {
+        const { restore } = await this.s3Service.headObject(
+          entry.key,
+          entry.versionId
+        );
+        if (restore && !restore.inProgress) return entry;
+
+        inProgress = !!restore?.inProgress;
+        if (!inProgress && options.restore) {
+          await this.s3Service.restoreObject(entry.key, entry.versionId, {
+            tier: options.tier ?? "Standard",
+            days: options.days ?? 7,
+          });
+          inProgress = true;
+          console.log(`🧊 Requested restore of ${entry.key}`);
+        }
+      } catch (error) {
+        // Reading the object fails the same way, so it is reported as a failed file
+        console.warn(`⚠️ Could not check restore status of ${entry.key}:`, error);
+        return entry;
+      }
+
+      parked.push({
+        ...entry,
+        storageClass: entry.storageClass as string,
+        restore: inProgress ? "in progress" : "not requested",
+      });
+      return undefined;
+    });
+
+    for await (const entry of checked) {
+      if (entry) yield entry;
+    }
+  }
+
+  /**
+   * Polls parked objects until their restores complete, yielding each one
+   * as it becomes readable. Restored objects are removed from `parked`, so
+   * once iteration ends it holds the objects still awaiting restore.
+   * @param {ArchivedObject[]} parked - Objects awaiting restore
+   * @param {ArchiveOptions} options - Poll interval and maximum wait
+   * @returns {AsyncGenerator<S3ObjectEntry>}
+   */
+  async *waitForRestores(
+    parked: ArchivedObject[],
+    options: ArchiveOptions = {}
+  ): AsyncGenerator<S3ObjectEntry> {
+    const pollIntervalMs = options.pollIntervalMs ?? 5 * 60 * 1000;
+    const deadline = Date.now() + (options.maxWaitMs ?? 12 * 60 * 60 * 1000);
+
+    while (parked.some((object) => object.restore === "in progress")) {
+      for (const object of [...parked]) {
+        if (object.restore !== "in progress") continue;
+        const { restore: _state, ...entry } = object;
+        let restore: S3RestoreStatus | undefined;
+        try {
+          ({ restore } = await this.s3Service.headObject(object.key, object.versionId));
+        } catch (error) {
+          // Handed on anyway, so reading the object reports it as a failed file
+          console.warn(`⚠️ Could not check restore status of ${object.key}:`, error);
+          parked.splice(parked.indexOf(object), 1);
+          yield entry;
+          continue;
+        }
+        if (restore && !restore.inProgress) {
+          parked.splice(parked.indexOf(object), 1);
+          console.log(`✅ Restore completed for ${object.key}`);
+          yield entry;
+        }
+      }
+
+      const remaining = parked.filter((object) => object.restore === "in progress");
+      if (remaining.length === 0 || Date.now() + pollIntervalMs > deadline) return;
+      console.log(`⏳ Waiting for ${remaining.length} restores...`);
+      await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+    }
+  }
+}
@@ -1,86 +1,579 @@
 import {
   S3Client,
   GetObjectCommand,
+  GetObjectCommandOutput,
+  GetObjectTaggingCommand,
+  HeadObjectCommand,
+  HeadObjectCommandOutput,
   ListObjectsV2Command,
+  ListObjectVersionsCommand,
+  RestoreObjectCommand,
 } from "@aws-sdk/client-s3";
-import { FileData, S3ServiceConfig } from "../types/index.js";
+import {
+  FailedFile,
+  FetchOptions,
+  FileData,
+  ObjectMetadata,
+  S3ObjectEntry,
+  S3ObjectInfo,
+  S3ObjectVersion,
+  S3RestoreStatus,
+  S3ServiceConfig,
+  RestoreTier,
+} from "../types/index.js";
 import { EventManager } from "../managers/EventManager.js";
+import { mapWithConcurrency } from "../utils/concurrency.js";
+import { createS3Client } from "../utils/s3ClientFactory.js";
+import { createSseKeyResolver, SseRequestParams } from "../utils/sseCustomerKeys.js";
+
+// Storage classes whose objects must be restored before they can be read
+const ARCHIVE_STORAGE_CLASSES = new Set(["GLACIER", "DEEP_ARCHIVE"]);
+
+const DEFAULT_PART_SIZE = 16 * 1024 * 1024;
+const DEFAULT_RANGED_THRESHOLD = 64 * 1024 * 1024;
+
+export function isArchiveStorageClass(storageClass?: string): boolean {
+  return ARCHIVE_STORAGE_CLASSES.has(storageClass ?? "");
+}
 
 export class S3Service {
   private readonly client: S3Client;
   private readonly config: S3ServiceConfig;
   private eventManager?: EventManager;
+  private readonly resolveSseKey: (key: string) => Promise<SseRequestParams>;
+  // Requester-pays buckets reject requests that do not accept the charges
+  private readonly requestPayer?: "requester";
 
   constructor(config: S3ServiceConfig, eventManager?: EventManager) {
+    const partSize = config.download?.partSize;
+    if (partSize !== undefined && !(Number.isInteger(partSize) && partSize > 0)) {
+      throw new Error(`download.partSize must be a positive whole number of bytes, got ${partSize}`);
+    }
     this.config = config;
-    this.client = new S3Client({
-      region: config.region,
-      credentials: config.credentials ?? {
-        accessKeyId: process.env.AWS_ACCESS_KEY_ID as string,
-        secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY as string,
-      },
-    });
+    this.client = createS3Client(config);
     this.eventManager = eventManager;
+    this.resolveSseKey = createSseKeyResolver(config.sseCustomerKeys);
+    this.requestPayer = config.requesterPays ? "requester" : undefined;
+  }
+
+  get bucketName(): string {
+    return this.config.bucketName;
   }
 
   /**
-   * Fetches a file from S3 as a buffer
+   * Opens a streaming handle to a file in S3. The object body is only
+   * requested once the returned stream is read, so memory use stays bounded
+   * regardless of object size. Archived objects that have not been restored
+   * fail here with `InvalidObjectState` instead of midway through a read.
    * @param {string} fileKey - The file key in S3
+   * @param {string} versionId - Optional version to fetch instead of the current one
+   * @param {FetchOptions} options - Whether to also read the object's tags
+   * @returns {Promise<FileData>}
+   */
+  async fetchFileFromS3(
+    fileKey: string,
+    versionId?: string,
+    options: FetchOptions = {}
+  ): Promise<FileData> {
+    const info = await this.headObject(fileKey, versionId);
+    const { storageClass, restore } = info;
+
+    if (isArchiveStorageClass(storageClass) && (!restore || restore.inProgress)) {
+      const error = new Error(
+        `${fileKey} is archived in ${storageClass} and must be restored before it can be read`
+      );
+      error.name = "InvalidObjectState";
+      throw error;
+    }
+
+    return this.createFileData({ ...info, key: fileKey, versionId }, options, true);
+  }
+
+  /**
+   * Opens a streaming handle to a listed object without a HEAD request, as
+   * its size and ETag are already known from the listing. The content type
+   * and HTTP/user metadata are filled in from the GET response once the
+   * stream is read, so errors such as a key deleted since the listing
+   * surface on the first read and fail that file's upload. Archived objects
+   * are still checked with a HEAD request.
+   * @param {S3ObjectEntry} entry - The listed object
+   * @param {FetchOptions} options - Whether to also read the object's tags
    * @returns {Promise<FileData>}
    */
-  async fetchFileFromS3(fileKey: string): Promise<FileData> {
-    const command = new GetObjectCommand({
+  async openFile(
+    entry: S3ObjectEntry,
+    options: FetchOptions = {}
+  ): Promise<FileData> {
+    if (isArchiveStorageClass(entry.storageClass)) {
+      const file = await this.fetchFileFromS3(entry.key, entry.versionId, options);
+      file.isLatest = entry.isLatest;
+      return file;
+    }
+    return this.createFileData(entry, options, false);
+  }
+
+  private async createFileData(
+    object: S3ObjectEntry & Pick<S3ObjectInfo, "contentType" | "metadata" | "encryption">,
+    options: FetchOptions,
+    hasHeaders: boolean
+  ): Promise<FileData> {
+    const { key, size, versionId, etag } = object;
+    let headersRead = hasHeaders;
+    // Without a HEAD request the headers are taken from the first GET response
+    const onResponse = (response: GetObjectCommandOutput) => {
+      if (headersRead) return;
+      headersRead = true;
+      file.contentType = response.ContentType;
+      file.encryption = readEncryption(response);
+      const metadata = readObjectMetadata(response);
+      if (metadata) file.metadata = { ...metadata, ...file.metadata };
+    };
+
+    const file: FileData = {
+      key,
+      fileName: key.split("/").pop() || key,
+      size,
+      etag,
+      contentType: object.contentType,
+      lastModified: object.lastModified,
+      versionId,
+      isLatest: object.isLatest,
+      encryption: object.encryption,
+      metadata: options.tags
+        ? { ...object.metadata, tags: await this.getObjectTags(key, versionId) }
+        : object.metadata,
+      stream: () =>
+        this.useRangedDownload(size)
+          ? this.createRangedStream(key, size, versionId, etag, onResponse)
+          : this.createObjectStream(key, size, versionId, onResponse),
+    };
+    return file;
+  }
+
+  /**
+   * Reads an object's size, ETag, content type, modification time, storage
+   * class, restore status and HTTP/user metadata without fetching its body
+   * @param {string} fileKey - The file key in S3
+   * @param {string} versionId - Optional version to read instead of the current one
+   * @returns {Promise<S3ObjectInfo>}
+   */
+  async headObject(fileKey: string, versionId?: string): Promise<S3ObjectInfo> {
+    const command = new HeadObjectCommand({
       Bucket: this.config.bucketName,
       Key: fileKey,
+      VersionId: versionId,
+      RequestPayer: this.requestPayer,
+      ...(await this.resolveSseKey(fileKey)),
     });
 
     const response = await this.client.send(command);
-    const chunks: Uint8Array[] = [];
-    const totalBytes = Number(response.ContentLength) || 0;
-    let bytesReceived = 0;
+    return {
+      size: Number(response.ContentLength) || 0,
+      etag: response.ETag?.replace(/"/g, ""),
+      contentType: response.ContentType,
+      lastModified: response.LastModified,
+      storageClass: response.StorageClass,
+      restore: parseRestoreHeader(response.Restore),
+      metadata: readObjectMetadata(response),
+      encryption: readEncryption(response),
+    };
+  }
 
-    if (!response.Body) {
-      throw new Error(`No body in response for file: ${fileKey}`);
+  /**
+   * Reads an object's tags
+   * @param {string} fileKey - The file key in S3
+   * @param {string} versionId - Optional version to read instead of the current one
+   * @returns {Promise<Record<string, string>>}
+   */
+  async getObjectTags(
+    fileKey: string,
+    versionId?: string
+  ): Promise<Record<string, string>> {
+    const command = new GetObjectTaggingCommand({
+      Bucket: this.config.bucketName,
+      Key: fileKey,
+      VersionId: versionId,
+      RequestPayer: this.requestPayer,
+    });
+
+    const response = await this.client.send(command);
+    const tags: Record<string, string> = {};
+    for (const tag of response.TagSet ?? []) {
+      if (tag.Key) tags[tag.Key] = tag.Value ?? "";
     }
+    return tags;
+  }
 
-    // Mark the start of download phase
-    this.eventManager?.updateProgress({ phase: 'download' });
+  /**
+   * Asks S3 to restore an archived object so it can be read
+   * @param {string} fileKey - The file key in S3
+   * @param {string} versionId - Optional version to restore
+   * @param {object} options - Retrieval tier and how many days the copy is kept
+   * @returns {Promise<boolean>} - False if a restore was already in progress
+   */
+  async restoreObject(
+    fileKey: string,
+    versionId: string | undefined,
+    options: { tier: RestoreTier; days: number }
+  ): Promise<boolean> {
+    const command = new RestoreObjectCommand({
+      Bucket: this.config.bucketName,
+      Key: fileKey,
+      VersionId: versionId,
+      RequestPayer: this.requestPayer,
+      RestoreRequest: {
+        Days: options.days,
+        GlacierJobParameters: { Tier: options.tier },
+      },
+    });
 
-    for await (const chunk of response.Body as any) {
-      chunks.push(chunk);
-      bytesReceived += chunk.length;
-      this.eventManager?.updateFileProgress(
-        fileKey,
-        bytesReceived,
-        totalBytes,
-        'download'
-      );
+    try {
+      await this.client.send(command);
+      return true;
+    } catch (error) {
+      if ((error as Error).name === "RestoreAlreadyInProgress") return false;
+      throw error;
     }
+  }
 
-    const buffer = Buffer.concat(chunks);
-    return {
-      buffer,
-      fileName: fileKey.split("/").pop() || fileKey,
+  /**
+   * Creates a pull-based stream over an S3 object body, reporting download
+   * progress as chunks are consumed by the reader
+   * @param {string} fileKey - The file key in S3
+   * @param {number} totalBytes - Expected object size
+   * @param {string} versionId - Optional version to read instead of the current one
+   * @param {Function} onResponse - Called with the GET response before its body is read
+   * @returns {ReadableStream<Uint8Array>}
+   */
+  private createObjectStream(
+    fileKey: string,
+    totalBytes: number,
+    versionId?: string,
+    onResponse?: (response: GetObjectCommandOutput) => void
+  ): ReadableStream<Uint8Array> {
+    let reader: ReadableStreamDefaultReader<Uint8Array> | undefined;
+    let bytesReceived = 0;
+
+    return new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        if (!reader) {
+          const command = new GetObjectCommand({
+            Bucket: this.config.bucketName,
+            Key: fileKey,
+            VersionId: versionId,
+            RequestPayer: this.requestPayer,
+            ...(await this.resolveSseKey(fileKey)),
+          });
+          const response = await this.client.send(command);
+
+          if (!response.Body) {
+            throw new Error(`No body in response for file: ${fileKey}`);
+          }
+          onResponse?.(response);
+
+          // Mark the start of download phase
+          this.eventManager?.updateProgress({ phase: 'download' });
+          reader = response.Body.transformToWebStream().getReader();
+        }
+
+        const { done, value } = await reader.read();
+        if (done) {
+          controller.close();
+          return;
+        }
+
+        bytesReceived += value.length;
+        this.eventManager?.updateFileProgress(
+          fileKey,
+          bytesReceived,
+          totalBytes,
+          'download'
+        );
+        controller.enqueue(value);
+      },
+      cancel: async (reason) => {
+        await reader?.cancel(reason);
+      },
+    });
+  }
+
+  private useRangedDownload(size: number): boolean {
+    const download = this.config.download;
+    if (download?.enabled === false) return false;
+    return size >= (download?.threshold ?? DEFAULT_RANGED_THRESHOLD);
+  }
+
+  /**
+   * Creates a stream over a large object that downloads `partConcurrency`
+   * byte ranges at a time and emits them in order. Each range is retried on
+   * its own, so a dropped connection only repeats that part, and `If-Match`
+   * on the ETag stops parts of different object revisions being mixed.
+   * @param {string} fileKey - The file key in S3
+   * @param {number} totalBytes - Object size
+   * @param {string} versionId - Optional version to read instead of the current one
+   * @param {string} etag - ETag every range must match
+   * @param {Function} onResponse - Called with each range's GET response
+   * @returns {ReadableStream<Uint8Array>}
+   */
+  private createRangedStream(
+    fileKey: string,
+    totalBytes: number,
+    versionId?: string,
+    etag?: string,
+    onResponse?: (response: GetObjectCommandOutput) => void
+  ): ReadableStream<Uint8Array> {
+    const partSize = this.config.download?.partSize ?? DEFAULT_PART_SIZE;
+    const partConcurrency = Math.max(1, this.config.download?.partConcurrency ?? 4);
+    const totalParts = Math.ceil(totalBytes / partSize);
+    const parts = new Map<number, Promise<Uint8Array>>();
+    const abortController = new AbortController();
+    const received = { bytes: 0 };
+    let nextPart = 0;
+    let nextToEmit = 0;
+
+    // Keeps at most `partConcurrency` ranges buffered ahead of the reader
+    const startParts = () => {
+      while (nextPart < totalParts && nextPart < nextToEmit + partConcurrency) {
+        const partNumber = nextPart++;
+        const part = this.downloadRange(fileKey, {
+          versionId,
+          etag,
+          start: partNumber * partSize,
+          end: Math.min(totalBytes, (partNumber + 1) * partSize) - 1,
+          partNumber,
+          totalParts,
+          totalBytes,
+          received,
+          signal: abortController.signal,
+          onResponse,
+        });
+        // Failures surface when the part is read; until then they are expected to wait
+        part.catch(() => undefined);
+        parts.set(partNumber, part);
+      }
     };
+
+    return new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        if (nextToEmit === 0) this.eventManager?.updateProgress({ phase: 'download' });
+        if (nextToEmit >= totalParts) {
+          controller.close();
+          return;
+        }
+
+        startParts();
+        let part: Uint8Array;
+        try {
+          part = await (parts.get(nextToEmit) as Promise<Uint8Array>);
+        } catch (error) {
+          // Parts already in flight would only download into buffers nobody reads
+          abortController.abort();
+          parts.clear();
+          throw error;
+        }
+        parts.delete(nextToEmit);
+        nextToEmit++;
+        startParts();
+        controller.enqueue(part);
+      },
+      cancel: () => {
+        abortController.abort();
+        parts.clear();
+      },
+    });
+  }
+
+  private async downloadRange(
+    fileKey: string,
+    range: {
+      versionId?: string;
+      etag?: string;
+      start: number;
+      end: number;
+      partNumber: number;
+      totalParts: number;
+      totalBytes: number;
+      received: { bytes: number };
+      signal: AbortSignal;
+      onResponse?: (response: GetObjectCommandOutput) => void;
+    }
+  ): Promise<Uint8Array> {
+    const partBytes = range.end - range.start + 1;
+    const maxAttempts = (this.config.download?.partRetries ?? 3) + 1;
+
+    for (let attempt = 1; ; attempt++) {
+      let bytesReceived = 0;
+      try {
+        const command = new GetObjectCommand({
+          Bucket: this.config.bucketName,
+          Key: fileKey,
+          VersionId: range.versionId,
+          Range: `bytes=${range.start}-${range.end}`,
+          IfMatch: range.etag ? `"${range.etag}"` : undefined,
+          RequestPayer: this.requestPayer,
+          ...(await this.resolveSseKey(fileKey)),
+        });
+        const response = await this.client.send(command, {
+          abortSignal: range.signal,
+        });
+        if (!response.Body) {
+          throw new Error(`No body in response for file: ${fileKey}`);
+        }
+        range.onResponse?.(response);
+
+        const buffer = new Uint8Array(partBytes);
+        const reader = response.Body.transformToWebStream().getReader();
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          if (bytesReceived + value.length > partBytes) {
+            throw new Error(`Range ${range.partNumber + 1} of ${fileKey} is longer than requested`);
+          }
+          buffer.set(value, bytesReceived);
+          bytesReceived += value.length;
+          range.received.bytes += value.length;
+          this.eventManager?.updateFileProgress(
+            fileKey,
+            range.received.bytes,
+            range.totalBytes,
+            'download',
+            {
+              partNumber: range.partNumber + 1,
+              totalParts: range.totalParts,
+              bytesReceived,
+              partBytes,
+            }
+          );
+        }
+
+        if (bytesReceived !== partBytes) {
+          throw new Error(
+            `Range ${range.partNumber + 1} of ${fileKey} ended after ${bytesReceived} of ${partBytes} bytes`
+          );
+        }
+        return buffer;
+      } catch (error) {
+        range.received.bytes -= bytesReceived;
+        const name = (error as Error).name;
+        // A changed object or a cancelled read will not succeed on retry
+        if (
+          attempt >= maxAttempts ||
+          range.signal.aborted ||
+          name === "PreconditionFailed" ||
+          name === "InvalidObjectState"
+        ) {
+          throw error;
+        }
+        console.warn(
+          `⚠️ Range ${range.partNumber + 1}/${range.totalParts} of ${fileKey} failed, retrying (${attempt}/${maxAttempts - 1})`
+        );
+        await new Promise((resolve) => setTimeout(resolve, 500 * 2 ** (attempt - 1)));
+      }
+    }
   }
 
   /**
-   * Lists all files in an S3 directory (prefix)
+   * Iterates over every object in an S3 directory (prefix), following
+   * continuation tokens so only one listing page is held in memory at a time
    * @param {string} directoryPath - The S3 directory (prefix)
-   * @returns {Promise<string[]>} - Array of file keys
+   * @returns {AsyncGenerator<S3ObjectEntry>} - Object entries in listing order
    */
-  async listFilesInS3Directory(directoryPath: string): Promise<string[]> {
-    try {
-      console.log(`Listing files in S3 directory: ${directoryPath}`);
+  async *listObjectsInS3Directory(
+    directoryPath: string
+  ): AsyncGenerator<S3ObjectEntry> {
+    let continuationToken: string | undefined;
+
+    do {
       const command = new ListObjectsV2Command({
         Bucket: this.config.bucketName,
         Prefix: directoryPath,
+        ContinuationToken: continuationToken,
+        RequestPayer: this.requestPayer,
       });
 
       const data = await this.client.send(command);
-      return data.Contents
-        ? data.Contents.map((item) => item.Key as string)
-        : [];
+      for (const item of data.Contents ?? []) {
+        if (!item.Key) continue;
+        yield {
+          key: item.Key,
+          size: Number(item.Size) || 0,
+          etag: item.ETag?.replace(/"/g, ""),
+          lastModified: item.LastModified,
+          storageClass: item.StorageClass,
+        };
+      }
+
+      continuationToken = data.IsTruncated
+        ? data.NextContinuationToken
+        : undefined;
+    } while (continuationToken);
+  }
+
+  /**
+   * Iterates over every version and delete marker in an S3 directory
+   * (prefix) of a versioned bucket, one listing page at a time
+   * @param {string} directoryPath - The S3 directory (prefix)
+   * @returns {AsyncGenerator<S3ObjectVersion>} - Versions and delete markers
+   */
+  async *listObjectVersionsInS3Directory(
+    directoryPath: string
+  ): AsyncGenerator<S3ObjectVersion> {
+    let keyMarker: string | undefined;
+    let versionIdMarker: string | undefined;
+
+    do {
+      const command = new ListObjectVersionsCommand({
+        Bucket: this.config.bucketName,
+        Prefix: directoryPath,
+        KeyMarker: keyMarker,
+        VersionIdMarker: versionIdMarker,
+        RequestPayer: this.requestPayer,
+      });
+
+      const data = await this.client.send(command);
+      for (const item of data.Versions ?? []) {
+        if (!item.Key) continue;
+        yield {
+          key: item.Key,
+          size: Number(item.Size) || 0,
+          etag: item.ETag?.replace(/"/g, ""),
+          lastModified: item.LastModified,
+          storageClass: item.StorageClass,
+          versionId: item.VersionId ?? "null",
+          isLatest: !!item.IsLatest,
+          deleteMarker: false,
+        };
+      }
+      for (const item of data.DeleteMarkers ?? []) {
+        if (!item.Key) continue;
+        yield {
+          key: item.Key,
+          size: 0,
+          lastModified: item.LastModified,
+          versionId: item.VersionId ?? "null",
+          isLatest: !!item.IsLatest,
+          deleteMarker: true,
+        };
+      }
+
+      keyMarker = data.IsTruncated ? data.NextKeyMarker : undefined;
+      versionIdMarker = data.IsTruncated ? data.NextVersionIdMarker : undefined;
+    } while (keyMarker);
+  }
+
+  /**
+   * Lists all files in an S3 directory (prefix)
+   * @param {string} directoryPath - The S3 directory (prefix)
+   * @returns {Promise<string[]>} - Array of file keys
+   */
+  async listFilesInS3Directory(directoryPath: string): Promise<string[]> {
+    try {
+      console.log(`Listing files in S3 directory: ${directoryPath}`);
+      const fileKeys: string[] = [];
+      for await (const entry of this.listObjectsInS3Directory(directoryPath)) {
+        fileKeys.push(entry.key);
+      }
+      return fileKeys;
     } catch (error) {
       console.error("Error listing files in S3 directory:", error);
       throw error;
@@ -88,41 +581,94 @@ export class S3Service {
   }
 
   /**
-   * Fetches multiple files in batches
+   * Fetches multiple files with at most `concurrency` requests in flight.
+   * Download totals come from the metadata already fetched, so no object
+   * body is opened before it is read.
    * @param {string[]} fileKeys - Array of file keys to fetch
+   * @param {number} concurrency - Maximum number of concurrent requests
    * @returns {Promise<FileData[]>}
    */
-  async fetchFilesInBatches(fileKeys: string[]): Promise<FileData[]> {
-    const batchSize = 5;
+  async fetchFilesInBatches(
+    fileKeys: string[],
+    concurrency: number = 5
+  ): Promise<FileData[]> {
     const results: FileData[] = [];
-    
-    // Calculate total size first
-    let totalDownloadBytes = 0;
-    for (const key of fileKeys) {
-      const command = new GetObjectCommand({
-        Bucket: this.config.bucketName,
-        Key: key,
-      });
-      const response = await this.client.send(command);
-      totalDownloadBytes += Number(response.ContentLength) || 0;
+    for await (const file of mapWithConcurrency(fileKeys, concurrency, (key) =>
+      this.fetchFileFromS3(key)
+    )) {
+      results.push(file);
     }
-    
-    // Set initial total bytes for download phase
+
+    const totalDownloadBytes = results.reduce((acc, file) => acc + file.size, 0);
     this.eventManager?.setTotalBytes(totalDownloadBytes, totalDownloadBytes);
-    
-    for (let i = 0; i < fileKeys.length; i += batchSize) {
-      const batch = fileKeys.slice(i, i + batchSize);
-      this.eventManager?.updateProgress({
-        phase: 'download',
-        currentFile: `Batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(fileKeys.length / batchSize)}`
-      });
-      
-      const batchResults = await Promise.all(
-        batch.map(key => this.fetchFileFromS3(key))
-      );
-      results.push(...batchResults);
-    }
-    
     return results;
   }
+
+  /**
+   * Yields file handles for listed objects. Only archived objects and tags
+   * cost a request before the body is read, and at most `concurrency` of
+   * those run ahead of the consumer. An object that cannot be opened is
+   * yielded as a failure, so it does not end the iteration for the others.
+   * @param {Iterable<S3ObjectEntry> | AsyncIterable<S3ObjectEntry>} objects - Listed objects to fetch
+   * @param {number} concurrency - Maximum number of concurrent requests
+   * @param {FetchOptions} options - Whether to also read each object's tags
+   * @returns {AsyncGenerator<FileData | FailedFile>} - Files in completion order
+   */
+  async *fetchFiles(
+    objects: Iterable<S3ObjectEntry> | AsyncIterable<S3ObjectEntry>,
+    concurrency: number = 5,
+    options: FetchOptions = {}
+  ): AsyncGenerator<FileData | FailedFile> {
+    // Listing sizes give the download total without touching object bodies;
+    // a streamed listing adds to it as objects arrive
+    let totalDownloadBytes = 0;
+    this.eventManager?.updateProgress({ phase: 'download' });
+
+    yield* mapWithConcurrency(objects, concurrency, (object) => {
+      totalDownloadBytes += object.size;
+      this.eventManager?.setTotalBytes(totalDownloadBytes, totalDownloadBytes);
+      return this.openFile(object, options).catch((error): FailedFile => ({
+        key: object.key,
+        versionId: object.versionId,
+        error: error instanceof Error ? error : new Error(String(error)),
+      }));
+    });
+  }
+}
+
+// Parses `ongoing-request="false", expiry-date="Fri, 21 Dec 2012 00:00:00 GMT"`
+function parseRestoreHeader(header?: string): S3RestoreStatus | undefined {
+  if (!header) return undefined;
+  const expiryDate = header.match(/expiry-date="([^"]+)"/)?.[1];
+  return {
+    inProgress: /ongoing-request="true"/.test(header),
+    expiryDate: expiryDate ? new Date(expiryDate) : undefined,
+  };
+}
+
+function readObjectMetadata(
+  response: HeadObjectCommandOutput | GetObjectCommandOutput
+): ObjectMetadata | undefined {
+  return withoutEmptyFields({
+    contentEncoding: response.ContentEncoding,
+    contentDisposition: response.ContentDisposition,
+    contentLanguage: response.ContentLanguage,
+    cacheControl: response.CacheControl,
+    expires: response.ExpiresString ?? response.Expires?.toUTCString(),
+    userMetadata:
+      response.Metadata && Object.keys(response.Metadata).length > 0
+        ? response.Metadata
+        : undefined,
+  });
+}
+
+function readEncryption(
+  response: HeadObjectCommandOutput | GetObjectCommandOutput
+): string | undefined {
+  return response.SSECustomerAlgorithm ? "SSE-C" : response.ServerSideEncryption;
+}
+
+function withoutEmptyFields(metadata: ObjectMetadata): ObjectMetadata | undefined {
+  const entries = Object.entries(metadata).filter(([, value]) => value !== undefined);
+  return entries.length > 0 ? (Object.fromEntries(entries) as ObjectMetadata) : undefined;
 }
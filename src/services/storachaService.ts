@@ -1,44 +1,89 @@
-import { create, Client } from "@web3-storage/w3up-client";
-import { UploadResponse, SpaceResponse, FileData } from "../types/index.js";
-import { uploadDirectory, uploadFile } from "@web3-storage/upload-client";
+import fs from "fs";
+import { create, Account, Client } from "@web3-storage/w3up-client";
+import * as Link from "multiformats/link";
+import { base64 } from "multiformats/bases/base64";
+import { identity } from "multiformats/hashes/identity";
+import * as Proof from "@web3-storage/w3up-client/proof";
+import { extract } from "@web3-storage/w3up-client/delegation";
+import { Signer } from "@web3-storage/w3up-client/principal/ed25519";
+import { StoreMemory } from "@web3-storage/w3up-client/stores/memory";
+import {
+  UploadResponse,
+  SpaceResponse,
+  FileData,
+  DirectoryEntry,
+  DirectoryUploadOptions,
+  FailedFile,
+  CreateSpaceOptions,
+  SpaceDelegation,
+  SpaceInfo,
+  StorachaConfig,
+  StorachaSessionState,
+} from "../types/index.js";
+import { CAR, uploadDirectory } from "@web3-storage/upload-client";
 import { fetchWithUploadProgress } from "@web3-storage/upload-client/fetch-with-upload-progress";
 import { EventManager } from "../managers/EventManager.js";
+import {
+  encodeDirectoryFromEntries,
+  encodeFile,
+} from "../utils/unixfsEncoder.js";
+import { registerUpload, storeDag } from "../utils/dagStore.js";
+import { runWithConcurrency } from "../utils/concurrency.js";
+import { FileAgentStore } from "./agentStore.js";
 import dotenv from "dotenv";
-// Import File only if running in Node.js environment
-// In browsers, File is already available globally
-import { File as NodeFile } from "formdata-node";
 import {
+  CARLink,
+  FileLike,
   InvocationConfig,
+  InvocationConfigurator,
   ProgressStatus,
   UploadListItem,
 } from "@web3-storage/upload-client/types";
-
-// For cross-environment compatibility
-const FileClass = typeof File === "undefined" ? NodeFile : File;
+import type { DID, Principal, ServiceAbility } from "@web3-storage/w3up-client/types";
 
 dotenv.config();
 
 interface IStorachaClient extends Client {
   login: (email: `${string}@${string}`) => Promise<any>;
-  uploadDirectory: (files: File[]) => Promise<any>;
+  uploadDirectory: (files: FileLike[]) => Promise<any>;
 }
 
 interface StorachaAccount {
   plan: {
     wait: () => Promise<any>;
   };
-  agent: {
-    getSpaceInfo: () => Promise<{ did: string }>;
-  };
+  proofs: Array<{ expiration: number }>;
+  toEmail: () => string;
 }
 
 interface Space {
   did: () => string;
 }
 
+interface StorachaSession {
+  client: IStorachaClient;
+  // Only email logins have an account; agent key sessions act on delegated spaces
+  account?: StorachaAccount;
+  // Unix time (seconds) when the first of the session's proofs expires
+  expiresAt: number;
+}
+
+// Sessions are renewed this long before their proofs expire
+const SESSION_RENEWAL_MARGIN_SECONDS = 5 * 60;
+
+// Multicodec of CAR files; delegation proofs are CAR bytes inlined in an identity CID
+const CAR_CODEC = 0x0202;
+
+// Abilities invoked by uploads: store the shards, their index, and register the upload
+const UPLOAD_CAPABILITIES = ["space/blob/add", "space/index/add", "upload/add"];
+
 export class StorachaClient {
-  private client!: Client;
-  private account!: any;
+  private session: StorachaSession | null = null;
+  private pendingSession: Promise<StorachaSession> | null = null;
+  private sessionState: StorachaSessionState = "disconnected";
+  private auth?: StorachaConfig;
+  // DID or name of the space uploads go to when a call does not name one
+  private targetSpace?: string;
   private eventManager?: EventManager;
   private isUploading: boolean = false;
 
@@ -46,12 +91,6 @@ export class StorachaClient {
     this.eventManager = eventManager;
   }
 
-  private async initialize() {
-    if (!this.client) {
-      this.client = await create();
-    }
-  }
-
   async validateEmail(email: string): Promise<`${string}@${string}`> {
     if (!email || !email.includes("@")) {
       throw new Error(
@@ -61,31 +100,131 @@ export class StorachaClient {
     return email as `${string}@${string}`;
   }
 
-  async initializeClient(): Promise<{
-    client: IStorachaClient;
-    account: StorachaAccount;
-  }> {
+  getSessionState(): StorachaSessionState {
+    return this.sessionState;
+  }
+
+  /**
+   * Authenticates once and keeps the client for every later call. An agent
+   * key with a delegation proof needs no interaction; otherwise the email
+   * login is used.
+   * @param {StorachaConfig} auth - Agent key and proof, or account email
+   * @returns {Promise<void>}
+   */
+  async connect(auth: StorachaConfig): Promise<void> {
+    this.auth = auth;
+    this.targetSpace = auth.did ?? auth.spaceName;
+    this.session = null;
+    await this.getSession();
+  }
+
+  /**
+   * Returns the authenticated session, logging in again only when there is
+   * none yet or its proofs are about to expire. Concurrent callers share a
+   * single login.
+   * @returns {Promise<StorachaSession>}
+   */
+  private async getSession(): Promise<StorachaSession> {
+    if (this.session && this.sessionState === "authenticated") {
+      const now = Date.now() / 1000;
+      if (now < this.session.expiresAt - SESSION_RENEWAL_MARGIN_SECONDS) {
+        return this.session;
+      }
+      console.log("⌛ Storacha session expired, logging in again...");
+      this.sessionState = "expired";
+    }
+
+    this.pendingSession ??= this.authenticate().finally(() => {
+      this.pendingSession = null;
+    });
+    return this.pendingSession;
+  }
+
+  private async authenticate(): Promise<StorachaSession> {
+    const previousState = this.sessionState;
+    this.sessionState = "connecting";
     try {
-      console.log("🛠 Initializing Storacha client...");
-      const client = await create();
-      console.log("🔑 Logging in to Storacha...");
-      const email = process.env.STORACHA_EMAIL;
-      if (!email) {
-        throw new Error("STORACHA_EMAIL environment variable is not set");
+      if (!this.auth) {
+        throw new Error("Storacha client is not connected");
       }
-      const validEmail = await this.validateEmail(email);
-      const account = await client.login(validEmail);
-      console.log(`✅ Logged into Storacha with email: ${email}`);
-      return {
-        client: client as unknown as IStorachaClient,
-        account: account as StorachaAccount,
-      };
+
+      console.log("🛠 Initializing Storacha client...");
+      this.session = this.auth.agentKey
+        ? await this.createDelegatedSession(this.auth)
+        : await this.createEmailSession(this.auth);
+      this.sessionState = "authenticated";
+      return this.session;
     } catch (error) {
+      this.sessionState = previousState === "expired" ? "expired" : "disconnected";
       console.error("❌ Error initializing client:", error);
       throw error;
     }
   }
 
+  /**
+   * Logs in with the account email, unless the agent store still holds a
+   * valid login for it from an earlier run
+   * @param {StorachaConfig} auth - Account email and optional agent store
+   * @returns {Promise<StorachaSession>}
+   */
+  private async createEmailSession(
+    auth: StorachaConfig
+  ): Promise<StorachaSession> {
+    const email = await this.validateEmail(auth.email ?? "");
+    const client = (await create(
+      auth.agentStore ? { store: new FileAgentStore(auth.agentStore) } : {}
+    )) as unknown as IStorachaClient;
+
+    const accounts = client.accounts() as unknown as Record<string, StorachaAccount>;
+    const stored = Object.values(accounts).find((account) => account.toEmail() === email);
+    const storedExpiresAt = stored ? proofsExpireAt(stored.proofs) : 0;
+    if (stored && storedExpiresAt > Date.now() / 1000 + SESSION_RENEWAL_MARGIN_SECONDS) {
+      console.log(`✅ Reusing stored Storacha login for ${email}`);
+      return { client, account: stored, expiresAt: storedExpiresAt };
+    }
+
+    console.log("🔑 Logging in to Storacha...");
+    const account = (await client.login(email)) as StorachaAccount;
+    console.log(`✅ Logged into Storacha with email: ${email}`);
+    await this.waitForPlanActivation(account);
+    return { client, account, expiresAt: proofsExpireAt(account.proofs) };
+  }
+
+  /**
+   * Creates a client that acts as the given agent, with the delegated space
+   * added and set as current, without an email login
+   * @param {StorachaConfig} auth - Agent key, delegation proof and optional agent store
+   * @returns {Promise<StorachaSession>}
+   */
+  private async createDelegatedSession(
+    auth: StorachaConfig
+  ): Promise<StorachaSession> {
+    if (!auth.proof && !auth.proofFile) {
+      throw new Error("An agent key needs a delegation proof or proof file");
+    }
+
+    const principal = Signer.parse(auth.agentKey as string);
+    const client = (await create({
+      principal,
+      store: auth.agentStore ? new FileAgentStore(auth.agentStore) : new StoreMemory(),
+    })) as unknown as IStorachaClient;
+    console.log(`🔑 Authenticating as agent ${principal.did()}...`);
+
+    const proof = auth.proofFile
+      ? await readProofFile(auth.proofFile)
+      : await Proof.parse(auth.proof as string);
+    if (proof.expiration * 1000 <= Date.now()) {
+      throw new Error(
+        `Delegation proof expired at ${new Date(proof.expiration * 1000).toISOString()}`
+      );
+    }
+
+    const space = await client.addSpace(proof);
+    await client.setCurrentSpace(space.did());
+    console.log(`✅ Using delegated space: ${space.did()}`);
+    return { client, expiresAt: proof.expiration };
+  }
+
   async waitForPlanActivation(account: StorachaAccount): Promise<void> {
     try {
       console.log("⏳ Waiting for payment plan activation...");
@@ -98,33 +237,17 @@ export class StorachaClient {
   }
 
   async uploadToStoracha(
-    fileBuffer: Buffer,
-    fileName: string
+    fileData: FileData,
+    options: { space?: string } = {}
   ): Promise<UploadResponse> {
     try {
-      const { client, account } = await this.initializeClient();
-      await this.waitForPlanActivation(account);
+      const conf = await this.prepareUpload(options.space);
 
-      console.log("🔍 Fetching user's current space...");
-      const res = await account.agent.getSpaceInfo();
-      if (!res || !res.did) {
-        throw new Error("❌ No space found! Please create a new space first.");
-      }
-
-      const space = res;
-      await client.setCurrentSpace(space.did as any);
-      console.log(`✅ Using existing space: ${space.did}`);
-
-      const conf: InvocationConfig = {
-        issuer: client.agent.issuer,
-        with: space.did as `did:${string}:${string}`,
-        proofs: client.proofs(),
-      };
+      console.log(`📤 Uploading file: ${fileData.fileName}...`);
 
-      const file = new FileClass([fileBuffer], fileName);
-      console.log(`📤 Uploading file: ${fileName}...`);
-
-      const cid = await uploadFile(conf, file, {
+      // The S3 body is piped straight into the UnixFS encoder; a failed read
+      // rejects the upload instead of crashing the process
+      const { root: cid, shards } = await storeDag(conf, encodeFile(fileData).blocks, {
         onUploadProgress: (progress: ProgressStatus) => {
           this.eventManager?.updateUploadProgress({
             ...progress,
@@ -133,6 +256,7 @@ export class StorachaClient {
         },
         fetchWithUploadProgress, // Enable XHR-based progress tracking
       });
+      await registerUpload(conf, cid, shards);
 
       console.log(`✅ File uploaded successfully! CID: ${cid.toString()}`);
 
@@ -140,7 +264,7 @@ export class StorachaClient {
         success: true,
         cid: cid.toString(),
         url: `https://${cid.toString()}.ipfs.w3s.link`,
-        size: fileBuffer.length,
+        size: fileData.size,
         status: "success",
       };
     } catch (error) {
@@ -154,7 +278,8 @@ export class StorachaClient {
   }
 
   async uploadDirectoryToStoracha(
-    filesArray: { buffer: Buffer; fileName: string }[]
+    filesArray: FileData[],
+    options: { space?: string } = {}
   ): Promise<UploadResponse> {
     if (this.isUploading) {
       return {
@@ -167,24 +292,14 @@ export class StorachaClient {
     this.isUploading = true;
     try {
       // Step 1: Initialize and authenticate (without progress updates)
-      await this.initialize();
-      const { client, account } = await this.initializeClient();
-      await this.waitForPlanActivation(account);
-
-      console.log("🔍 Fetching user's current space...");
-      const res = await account.agent.getSpaceInfo();
-      if (!res || !res.did) {
-        throw new Error("❌ No space found! Please create a new space first.");
-      }
-
-      const space = res;
-      await client.setCurrentSpace(space.did as any);
-      console.log(`✅ Using existing space: ${space.did}`);
+      const { client } = await this.getSession();
+      const space = this.resolveTargetSpace(client, options.space);
 
       // Step 2: Prepare files and configuration
-      const files = filesArray.map(
-        ({ buffer, fileName }) => new FileClass([buffer], fileName)
-      );
+      const files: FileLike[] = filesArray.map(({ fileName, stream }) => ({
+        name: fileName,
+        stream,
+      }));
 
       const conf: InvocationConfig = {
         issuer: client.agent.issuer,
@@ -194,7 +309,7 @@ export class StorachaClient {
 
       // Calculate total upload size
       const totalUploadBytes = filesArray.reduce(
-        (acc, file) => acc + file.buffer.length,
+        (acc, file) => acc + file.size,
         0
       );
       let totalBytesUploaded = 0;
@@ -354,6 +469,197 @@ export class StorachaClient {
     }
   }
 
+  /**
+   * Uploads files through a pool of `concurrency` workers and links them into
+   * a single UnixFS directory. Files may arrive from an async source, so
+   * uploads start while later files are still being fetched. Files the
+   * source could not open are reported as failed like failed uploads.
+   * Entries stored by an earlier run are linked by CID without being
+   * uploaded again; they are read once the file source is exhausted, so a
+   * source that finds them while listing can keep adding to the array. The
+   * directory is only created once every file succeeds.
+   */
+  async uploadFilesAsDirectory(
+    files: Iterable<FileData | FailedFile> | AsyncIterable<FileData | FailedFile>,
+    options: DirectoryUploadOptions = {}
+  ): Promise<UploadResponse> {
+    try {
+      const conf = await this.prepareUpload(options.space);
+      const uploadedEntries: DirectoryEntry[] = [];
+      let failedCount = 0;
+
+      await runWithConcurrency(files, options.concurrency ?? 5, async (file) => {
+        if ("error" in file) {
+          failedCount++;
+          console.error(`❌ Error fetching ${file.key}:`, file.error);
+          await options.onFileFailed?.(file, file.error);
+          return;
+        }
+
+        this.eventManager?.updateProgress({
+          phase: "upload",
+          currentFile: file.key,
+        });
+
+        try {
+          const entry = await this.uploadDirectoryEntry(conf, file);
+          uploadedEntries.push(entry);
+          await options.onFileUploaded?.(file, entry);
+        } catch (error) {
+          failedCount++;
+          console.error(`❌ Error uploading ${file.key}:`, error);
+          await options.onFileFailed?.(
+            file,
+            error instanceof Error ? error : new Error(String(error))
+          );
+        }
+      });
+
+      if (failedCount > 0) {
+        throw new Error(`${failedCount} file(s) failed to upload`);
+      }
+
+      // Read only now: the file source may still have been adding to it
+      const entries = [...(options.existingEntries ?? []), ...uploadedEntries];
+      const additionalFiles = (await options.additionalFiles?.([...entries])) ?? [];
+      for (const file of additionalFiles) {
+        entries.push(await this.uploadDirectoryEntry(conf, file));
+      }
+
+      console.log(`📂 Linking ${entries.length} files into a directory...`);
+      const directory = await encodeDirectoryFromEntries(entries);
+      const { root: directoryCid, shards } = await storeDag(
+        conf,
+        new CAR.BlockStream(directory.car),
+        { rootCID: directory.cid }
+      );
+      // Files were stored without registering uploads of their own, so the
+      // directory is the only upload listed in the space
+      await registerUpload(conf, directoryCid, [
+        ...entries.flatMap(
+          (entry) => entry.shards?.map((shard) => Link.parse(shard) as CARLink) ?? []
+        ),
+        ...shards,
+      ]);
+      const totalSize = entries.reduce((acc, entry) => acc + entry.size, 0);
+
+      console.log(`✅ Directory uploaded successfully! CID: ${directoryCid}`);
+
+      return {
+        success: true,
+        cid: directoryCid.toString(),
+        url: `https://${directoryCid}.ipfs.w3s.link`,
+        size: totalSize,
+        status: "success",
+      };
+    } catch (error) {
+      console.error("❌ Error uploading directory to Storacha:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        status: "failed",
+      };
+    }
+  }
+
+  private async uploadDirectoryEntry(
+    conf: InvocationConfigurator,
+    file: FileData
+  ): Promise<DirectoryEntry> {
+    console.log(`📤 Uploading file: ${file.key}...`);
+    const { blocks, dagByteLength } = encodeFile(file);
+    const { root, shards } = await storeDag(conf, blocks, {
+      onUploadProgress: (progress: ProgressStatus) => {
+        this.eventManager?.updateUploadProgress({
+          ...progress,
+          phase: "upload",
+        });
+      },
+      fetchWithUploadProgress,
+    });
+
+    return {
+      path: file.fileName,
+      cid: root.toString(),
+      size: file.size,
+      dagByteLength: dagByteLength(),
+      shards: shards.map(String),
+    };
+  }
+
+  /**
+   * Resolves the target space once and returns a configurator that signs
+   * each invocation with the current session, so uploads that outlast a
+   * login (such as directories waiting on archive restores) renew it
+   * @param {string} targetSpace - Optional space DID or name for this upload
+   * @returns {Promise<InvocationConfigurator>}
+   */
+  private async prepareUpload(targetSpace?: string): Promise<InvocationConfigurator> {
+    const { client } = await this.getSession();
+    const { did } = this.resolveTargetSpace(client, targetSpace);
+
+    return async (caps) => {
+      const { client } = await this.getSession();
+      return {
+        issuer: client.agent.issuer,
+        with: did,
+        proofs: client.proofs(caps.map(({ can }) => ({ can, with: did }))),
+      };
+    };
+  }
+
+  /**
+   * Picks the space to upload to: the one named in the call, else the one
+   * selected with setCurrentSpaceByDID or configured as `did`/`spaceName`,
+   * else the agent's current space. Fails if the agent cannot upload to it.
+   * @param {IStorachaClient} client - The authenticated client
+   * @param {string} space - Optional space DID or name for this call
+   * @returns {{ did: string }}
+   */
+  private resolveTargetSpace(
+    client: IStorachaClient,
+    space?: string
+  ): { did: `did:key:${string}` } {
+    const target = space ?? this.targetSpace;
+    let did: `did:key:${string}` | undefined;
+    if (target) {
+      did = this.findSpace(client, target);
+    } else {
+      console.log("🔍 Fetching user's current space...");
+      did = client.currentSpace()?.did();
+      if (!did) {
+        throw new Error("❌ No space found! Please create a new space first.");
+      }
+    }
+
+    const missing = UPLOAD_CAPABILITIES.filter(
+      (can) => client.proofs([{ can, with: did } as any]).length === 0
+    );
+    if (missing.length > 0) {
+      throw new Error(
+        `Agent ${client.agent.did()} cannot upload to space ${did}: missing ${missing.join(", ")}`
+      );
+    }
+
+    console.log(`✅ Using space: ${did}`);
+    return { did };
+  }
+
+  private findSpace(client: IStorachaClient, space: string): `did:key:${string}` {
+    const matches = client
+      .spaces()
+      .filter((candidate) =>
+        space.startsWith("did:") ? candidate.did() === space : candidate.name === space
+      );
+    if (matches.length === 0) {
+      throw new Error(`No space found matching ${space}`);
+    }
+    if (matches.length > 1) {
+      throw new Error(`Several spaces are named ${space}; use its DID instead`);
+    }
+    return matches[0].did();
+  }
+
   // Helper function for formatting bytes
   private formatBytes(bytes: number): string {
     if (bytes === 0) return "0 B";
@@ -362,17 +668,45 @@ export class StorachaClient {
     return `${(bytes / Math.pow(1024, i)).toFixed(2)} ${sizes[i]}`;
   }
 
-  async createNewStorachaSpace(spaceName: string): Promise<SpaceResponse> {
+  /**
+   * Creates a space, provisioning it with the logged-in account unless
+   * `provision` is false, and authorizes a recovery account for it
+   * @param {string} spaceName - Name of the new space
+   * @param {CreateSpaceOptions} options - Provisioning and recovery options
+   * @returns {Promise<SpaceResponse>}
+   */
+  async createNewStorachaSpace(
+    spaceName: string,
+    options: Omit<CreateSpaceOptions, "name"> = {}
+  ): Promise<SpaceResponse> {
     try {
       console.log(`🚀 Creating new Storacha space: ${spaceName}...`);
-      const { client, account } = await this.initializeClient();
-      await this.waitForPlanActivation(account);
+      const { client, account } = await this.getSession();
+      const provision = options.provision ?? true;
+      if ((provision || options.recoveryAccount) && !account) {
+        throw new Error("Provisioning spaces and adding recovery accounts require email login");
+      }
 
-      const space = (await client.createSpace(spaceName, {
-        account,
-      } as any)) as Space;
+      // Provisioning with an account also makes that account a recovery account
+      const space = await client.createSpace(spaceName, {
+        account: provision ? (account as any) : undefined,
+      });
       const did = space.did();
-      await client.setCurrentSpace(did as any);
+
+      if (options.recoveryAccount && (!provision || options.recoveryAccount !== account?.toEmail())) {
+        const recoveryEmail = await this.validateEmail(options.recoveryAccount);
+        const recovery = await space.createRecovery(Account.fromEmail(recoveryEmail));
+        const result = await client.capability.access.delegate({
+          space: did,
+          delegations: [recovery],
+        });
+        if (result.error) {
+          throw new Error(`Failed to authorize recovery account: ${result.error.message}`);
+        }
+        console.log(`🛟 Recovery account set: ${recoveryEmail}`);
+      }
+
+      await client.setCurrentSpace(did);
       console.log(
         `✅ New space created and set as current: ${spaceName} (DID: ${did})`
       );
@@ -391,33 +725,161 @@ export class StorachaClient {
     }
   }
 
-  static async connect(config: {
-    email: `${string}@${string}`;
-  }): Promise<StorachaClient> {
+  /**
+   * Renames a space. Names are kept with this agent's copy of the space, so
+   * other agents sharing the space keep their own name for it.
+   * @param {string} space - Space DID or current name
+   * @param {string} name - New name
+   * @returns {Promise<SpaceResponse>}
+   */
+  async renameSpace(space: string, name: string): Promise<SpaceResponse> {
+    try {
+      console.log(`✏️ Renaming space ${space} to ${name}...`);
+      const { client } = await this.getSession();
+      const did = this.findSpace(client, space);
+      const proof = client
+        .proofs()
+        .find((delegation) => delegation.capabilities[0]?.with === did);
+      if (!proof) {
+        throw new Error(`No delegation found for space ${did}`);
+      }
+
+      await client.agent.importSpaceFromDelegation(proof, { name });
+      if (this.targetSpace === space) this.targetSpace = did;
+      console.log(`✅ Space ${did} renamed to ${name}`);
+
+      return { success: true, did, name };
+    } catch (error) {
+      console.error("❌ Error renaming space:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Reads a space's storage providers and usage. Storacha keeps no creation
+   * time, so `createdAt` is when the usage report first records data.
+   * Unlike the methods returning a SpaceResponse, failures are thrown, as
+   * there is no partial info to return.
+   * @param {string} space - Space DID or name
+   * @returns {Promise<SpaceInfo>}
+   */
+  async getSpaceInfo(space: string): Promise<SpaceInfo> {
+    console.log(`🔍 Fetching info for space ${space}...`);
+    const { client } = await this.getSession();
+    const did = this.findSpace(client, space);
+    const period = { from: new Date(0), to: new Date() };
+    const [info, report] = await Promise.all([
+      client.agent.getSpaceInfo(did),
+      client.capability.usage.report(did, period),
+    ]);
+
+    const usage = Object.values(report);
+    const eventTimes = usage
+      .flatMap(({ events }) => events.map((event) => Date.parse(event.receiptAt)))
+      .filter((time) => !Number.isNaN(time));
+
+    return {
+      did,
+      name: client.spaces().find((candidate) => candidate.did() === did)?.name || undefined,
+      providers: info.providers,
+      usage: {
+        bytes: usage.reduce((acc, { size }) => acc + size.final, 0),
+        from: period.from.toISOString(),
+        to: period.to.toISOString(),
+      },
+      createdAt: eventTimes.length > 0 ? new Date(Math.min(...eventTimes)).toISOString() : undefined,
+    };
+  }
+
+  /**
+   * Delegates abilities on a space to another agent or account. The
+   * delegation is returned as a CAR archive and as base64, which the
+   * receiving migrator can use as its `proof`.
+   * @param {string} space - Space DID or name
+   * @param {string} audienceDid - DID of the agent or account receiving access
+   * @param {ServiceAbility[]} capabilities - Abilities to delegate, such as `upload/add`
+   * @param {Date} expiry - When the delegation expires (default: never)
+   * @returns {Promise<SpaceDelegation>}
+   */
+  async delegateSpace(
+    space: string,
+    audienceDid: string,
+    capabilities: ServiceAbility[],
+    expiry?: Date
+  ): Promise<SpaceDelegation> {
+    if (capabilities.length === 0) {
+      throw new Error("At least one capability is required to delegate a space");
+    }
+    const audience: Principal = { did: () => parseDid(audienceDid) };
+
+    console.log(`🤝 Delegating ${capabilities.join(", ")} on ${space} to ${audienceDid}...`);
+    const { client } = await this.getSession();
+    const did = this.findSpace(client, space);
+    const expiration = expiry ? Math.floor(expiry.getTime() / 1000) : Infinity;
+    const previousSpace = client.currentSpace()?.did();
+
+    // Delegations are issued on the agent's current space
+    await client.setCurrentSpace(did);
+    try {
+      const delegation = await client.createDelegation(audience, capabilities, {
+        expiration,
+      });
+      const archive = await delegation.archive();
+      if (archive.error) throw archive.error;
+
+      console.log(`✅ Delegation created: ${delegation.cid}`);
+      return {
+        cid: delegation.cid.toString(),
+        space: did,
+        audience: audienceDid,
+        capabilities,
+        expiration: Number.isFinite(expiration) ? new Date(expiration * 1000).toISOString() : undefined,
+        car: archive.ok,
+        proof: Link.create(CAR_CODEC, identity.digest(archive.ok)).toString(base64),
+      };
+    } finally {
+      if (previousSpace && previousSpace !== did) {
+        await client.setCurrentSpace(previousSpace);
+      }
+    }
+  }
+
+  static async connect(config: StorachaConfig): Promise<StorachaClient> {
     const client = new StorachaClient();
-    await client.initialize();
-    await client.login(config.email);
+    await client.connect(config);
     return client;
   }
 
   async disconnect(): Promise<void> {
-    this.client = null as any;
-    this.account = null;
+    this.session = null;
+    this.sessionState = "disconnected";
   }
 
-  async setCurrentSpaceByDID(did: string): Promise<SpaceResponse> {
+  /**
+   * Makes a space, given by DID or name, the default target of later uploads
+   * @param {string} space - Space DID or name
+   * @returns {Promise<SpaceResponse>}
+   */
+  async setCurrentSpaceByDID(space: string): Promise<SpaceResponse> {
     try {
-      console.log(`🔄 Setting current space to DID: ${did}...`);
-      const { account, client } = await this.initializeClient();
-      const res = await account.agent.getSpaceInfo();
-      console.log(`📍 Current Space: ${res.did}`);
-      await client.setCurrentSpace(did as any);
+      console.log(`🔄 Setting current space to: ${space}...`);
+      const { client } = await this.getSession();
+      console.log(`📍 Current Space: ${client.currentSpace()?.did()}`);
+      const { did } = this.resolveTargetSpace(client, space);
+      await client.setCurrentSpace(did);
+      this.targetSpace = did;
       console.log(`✅ Successfully set current space to: ${did}`);
 
       return {
         success: true,
         did,
-        name: did.split(":").pop() || "",
+        name:
+          client.spaces().find((candidate) => candidate.did() === did)?.name ||
+          did.split(":").pop() ||
+          "",
       };
     } catch (error) {
       console.error("❌ Error setting current space by DID:", error);
@@ -431,7 +893,7 @@ export class StorachaClient {
   async getAllSpaces(): Promise<SpaceResponse[]> {
     try {
       console.log("🔍 Fetching all spaces...");
-      const { client } = await this.initializeClient();
+      const { client } = await this.getSession();
       const spaces = client.spaces();
       console.log(`✅ Found ${spaces.length} spaces.`);
 
@@ -449,7 +911,7 @@ export class StorachaClient {
   async getAllUploads(): Promise<UploadListItem[]> {
     try {
       console.log("🔍 Fetching all uploads...");
-      const { client } = await this.initializeClient();
+      const { client } = await this.getSession();
       const uploads = await client.capability.upload.list();
       console.log(`✅ Found ${uploads.size} uploads.`);
 
@@ -460,29 +922,46 @@ export class StorachaClient {
     }
   }
 
-  async login(email: `${string}@${string}`): Promise<void> {
-    try {
-      this.account = await this.client.login(email);
-    } catch (error) {
-      throw new Error(`Failed to login to Storacha: ${error}`);
-    }
-  }
-
-  async uploadFilesInBatches(files: FileData[]): Promise<void> {
-    const batchSize = 5;
+  async uploadFilesInBatches(
+    files: FileData[],
+    concurrency: number = 5
+  ): Promise<void> {
+    let started = 0;
 
-    for (let i = 0; i < files.length; i += batchSize) {
-      const batch = files.slice(i, i + batchSize);
+    await runWithConcurrency(files, concurrency, async (file) => {
+      started++;
       this.eventManager?.updateProgress({
         phase: "upload",
-        currentFile: `Batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(
-          files.length / batchSize
-        )}`,
+        currentFile: `File ${started}/${files.length}`,
       });
+      await this.uploadToStoracha(file);
+    });
+  }
+}
 
-      await Promise.all(
-        batch.map((file) => this.uploadToStoracha(file.buffer, file.fileName))
-      );
-    }
+// Expired proofs left in a persistent agent store are ignored
+function proofsExpireAt(proofs: Array<{ expiration: number }>): number {
+  const now = Date.now() / 1000;
+  const valid = proofs.map((proof) => proof.expiration).filter((expiration) => expiration > now);
+  return valid.length > 0 ? Math.min(...valid) : 0;
+}
+
+// `w3 delegation create --output` writes an archive; older CLIs wrote a plain CAR
+async function readProofFile(proofFile: string) {
+  const bytes = await fs.promises.readFile(proofFile);
+  const { ok, error } = await extract(new Uint8Array(bytes));
+  if (ok) return ok;
+  try {
+    return await Proof.parse(bytes.toString("base64").replace(/=+$/, ""));
+  } catch {
+    throw new Error(`Could not read delegation proof from ${proofFile}: ${error}`);
   }
-}
\ No newline at end of file
+}
+
+// Audiences may be agents (did:key) or accounts (did:mailto)
+function parseDid(did: string): DID {
+  if (!/^did:[a-z0-9]+:\S+$/.test(did)) {
+    throw new Error(`Invalid audience DID: ${did}`);
+  }
+  return did as DID;
+}
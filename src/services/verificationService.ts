@@ -0,0 +1,136 @@
+import fs from "fs";
+import { createHash } from "crypto";
+import { S3Service } from "./s3Service.js";
+import { computeFileCid } from "../utils/unixfsEncoder.js";
+import { runWithConcurrency } from "../utils/concurrency.js";
+import {
+  ManifestEntry,
+  MigrationManifest,
+  VerificationOptions,
+  VerificationReport,
+  VerificationResult,
+} from "../types/index.js";
+
+export class VerificationService {
+  private readonly s3Service: S3Service;
+  private readonly getBucketService: (bucketName: string) => S3Service | undefined;
+
+  constructor(
+    s3Service: S3Service,
+    getBucketService: (bucketName: string) => S3Service | undefined = () => undefined
+  ) {
+    this.s3Service = s3Service;
+    this.getBucketService = getBucketService;
+  }
+
+  /**
+   * Re-reads every file in a manifest from S3 and recomputes its CID locally,
+   * without uploading anything, to prove the stored content matches the
+   * original objects
+   * @param {MigrationManifest | string} manifest - A manifest or the path to its JSON Lines file
+   * @param {VerificationOptions} options - Verification options
+   * @returns {Promise<VerificationReport>}
+   */
+  async verifyManifest(
+    manifest: MigrationManifest | string,
+    options: VerificationOptions = {}
+  ): Promise<VerificationReport> {
+    const entries = (
+      typeof manifest === "string"
+        ? await this.readManifest(manifest)
+        : manifest.entries
+    ).filter((entry) => entry.type === "file");
+    const results: VerificationResult[] = new Array(entries.length);
+
+    await runWithConcurrency(
+      entries.map((entry, index) => ({ entry, index })),
+      options.concurrency ?? 3,
+      async ({ entry, index }) => {
+        results[index] = await this.verifyEntry(entry, options);
+      }
+    );
+
+    const passedFiles = results.filter((result) => result.passed).length;
+    return {
+      passed: passedFiles === results.length,
+      totalFiles: results.length,
+      passedFiles,
+      failedFiles: results.length - passedFiles,
+      results,
+    };
+  }
+
+  private async verifyEntry(
+    entry: ManifestEntry,
+    options: VerificationOptions
+  ): Promise<VerificationResult> {
+    const result: VerificationResult = {
+      key: entry.key,
+      path: entry.path,
+      expectedCid: entry.cid,
+      cidMatch: false,
+      passed: false,
+    };
+
+    try {
+      const file = await this.serviceFor(entry).fetchFileFromS3(entry.key, entry.versionId);
+      const md5 = createHash("md5");
+      const cid = await computeFileCid({
+        stream: () =>
+          file.stream().pipeThrough(
+            new TransformStream<Uint8Array, Uint8Array>({
+              transform(chunk, controller) {
+                md5.update(chunk);
+                controller.enqueue(chunk);
+              },
+            })
+          ),
+      });
+
+      result.actualCid = cid.toString();
+      result.cidMatch = result.actualCid === entry.cid;
+
+      if (options.compareEtag !== false && isContentMd5(entry.etag, file.encryption)) {
+        result.etagMatch = md5.digest("hex") === entry.etag;
+      }
+
+      result.passed = result.cidMatch && result.etagMatch !== false;
+      if (!result.passed) {
+        console.warn(`⚠️ Verification failed for ${entry.key}`);
+      }
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : "Unknown error";
+      console.error(`❌ Error verifying ${entry.key}:`, error);
+    }
+
+    return result;
+  }
+
+  // Entries of multi-source manifests are read from the bucket they came from
+  private serviceFor(entry: ManifestEntry): S3Service {
+    if (!entry.bucket || entry.bucket === this.s3Service.bucketName) {
+      return this.s3Service;
+    }
+    const service = this.getBucketService(entry.bucket);
+    if (!service) {
+      throw new Error(
+        `${entry.key} is from bucket ${entry.bucket}; pass its S3 settings in the \`buckets\` verification option`
+      );
+    }
+    return service;
+  }
+
+  private async readManifest(manifestPath: string): Promise<ManifestEntry[]> {
+    const contents = await fs.promises.readFile(manifestPath, "utf8");
+    return contents
+      .split("\n")
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line) as ManifestEntry);
+  }
+}
+
+// Multipart ETags ("<hash>-<parts>") and those of SSE-C and SSE-KMS objects are not a digest of the content
+function isContentMd5(etag: string | undefined, encryption?: string): etag is string {
+  if (!etag || etag.includes("-")) return false;
+  return encryption !== "SSE-C" && !encryption?.startsWith("aws:kms");
+}
@@ -1,17 +1,9 @@
 import { UploadListItem } from "@web3-storage/upload-client/types";
+import type { ServiceAbility } from "@web3-storage/w3up-client/types";
 
 export interface StorachaMigratorConfig {
-  s3: {
-    bucketName: string;
-    region: string;
-    credentials?: {
-      accessKeyId: string;
-      secretAccessKey: string;
-    };
-  };
-  storacha: {
-    email?: string;
-  };
+  s3: S3ServiceConfig;
+  storacha: StorachaConfig;
   retry: {
     maxAttempts: number;
     backoffMs: number;
@@ -21,20 +13,173 @@ export interface StorachaMigratorConfig {
     concurrency: number;
     size: number;
   };
+  checkpoint?: CheckpointConfig;
+  manifest?: ManifestConfig;
 }
 
 export interface FileData {
-  buffer: Buffer;
+  key: string;
   fileName: string;
+  size: number;
+  etag?: string;
+  contentType?: string;
+  lastModified?: Date;
+  versionId?: string;
+  isLatest?: boolean;
+  metadata?: ObjectMetadata;
+  // Server-side encryption: AES256, aws:kms, aws:kms:dsse or SSE-C
+  encryption?: string;
+  stream: () => ReadableStream<Uint8Array>;
+}
+
+// A file that could not be opened, passed on so the upload can record it as failed
+export interface FailedFile {
+  key: string;
+  versionId?: string;
+  error: Error;
+}
+
+export interface ObjectMetadata {
+  contentEncoding?: string;
+  contentDisposition?: string;
+  contentLanguage?: string;
+  cacheControl?: string;
+  expires?: string;
+  userMetadata?: Record<string, string>;
+  tags?: Record<string, string>;
+}
+
+export interface FetchOptions {
+  tags?: boolean;
+}
+
+export interface S3ObjectEntry {
+  key: string;
+  size: number;
+  etag?: string;
+  lastModified?: Date;
+  storageClass?: string;
+  versionId?: string;
+  isLatest?: boolean;
+}
+
+export interface S3ObjectVersion extends S3ObjectEntry {
+  versionId: string;
+  isLatest: boolean;
+  deleteMarker: boolean;
+}
+
+export interface S3DeleteMarker {
+  key: string;
+  versionId: string;
+  isLatest: boolean;
+  lastModified?: Date;
+}
+
+export interface S3ObjectInfo {
+  size: number;
+  etag?: string;
+  contentType?: string;
+  lastModified?: Date;
+  storageClass?: string;
+  restore?: S3RestoreStatus;
+  metadata?: ObjectMetadata;
+  encryption?: string;
+}
+
+export interface S3RestoreStatus {
+  inProgress: boolean;
+  expiryDate?: Date;
+}
+
+export type RestoreTier = 'Expedited' | 'Standard' | 'Bulk';
+
+export interface ArchiveOptions {
+  restore?: boolean;
+  tier?: RestoreTier;
+  days?: number;
+  wait?: boolean;
+  pollIntervalMs?: number;
+  maxWaitMs?: number;
+}
+
+export interface ArchivedObject extends S3ObjectEntry {
+  storageClass: string;
+  restore: 'not requested' | 'in progress';
 }
 
 export interface S3ServiceConfig {
   bucketName: string;
   region: string;
-  credentials?: {
-    accessKeyId: string;
-    secretAccessKey: string;
-  };
+  credentials?: S3Credentials | S3CredentialProvider;
+  profile?: string;
+  assumeRole?: S3AssumeRoleConfig;
+  endpoint?: string;
+  forcePathStyle?: boolean;
+  tls?: S3TlsConfig;
+  signature?: S3SignatureConfig;
+  download?: RangedDownloadConfig;
+  requesterPays?: boolean;
+  sseCustomerKeys?: SseCustomerKeyConfig;
+}
+
+// A 256-bit key, as base64 or raw bytes
+export type SseCustomerKey = string | Uint8Array;
+
+// Customer-provided keys for SSE-C objects, matched by the longest key prefix
+export interface SseCustomerKeyConfig {
+  keys?: Record<string, string>;
+  keyFile?: string;
+  resolveKey?: (
+    key: string
+  ) => SseCustomerKey | undefined | Promise<SseCustomerKey | undefined>;
+  algorithm?: string;
+}
+
+// Objects of at least `threshold` bytes are fetched as parallel byte ranges
+export interface RangedDownloadConfig {
+  enabled?: boolean;
+  threshold?: number;
+  partSize?: number;
+  partConcurrency?: number;
+  partRetries?: number;
+}
+
+export interface PartProgress {
+  partNumber: number;
+  totalParts: number;
+  bytesReceived: number;
+  partBytes: number;
+}
+
+export interface S3Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+  expiration?: Date;
+}
+
+// Called again shortly before the returned credentials expire
+export type S3CredentialProvider = () => Promise<S3Credentials>;
+
+export interface S3AssumeRoleConfig {
+  roleArn: string;
+  externalId?: string;
+  sessionName?: string;
+  durationSeconds?: number;
+  region?: string;
+}
+
+export interface S3TlsConfig {
+  ca?: string | string[];
+  caFile?: string;
+  rejectUnauthorized?: boolean;
+}
+
+export interface S3SignatureConfig {
+  region?: string;
+  escapePath?: boolean;
+  checksums?: 'WHEN_SUPPORTED' | 'WHEN_REQUIRED';
 }
 
 export interface UploadResponse {
@@ -53,6 +198,36 @@ export interface SpaceResponse {
   error?: string;
 }
 
+export interface CreateSpaceOptions {
+  name?: string;
+  // Provision the space with the logged-in account (default: true)
+  provision?: boolean;
+  // Email of an account that can recover the space; provisioning already adds the logged-in account
+  recoveryAccount?: string;
+}
+
+export interface SpaceInfo {
+  did: string;
+  name?: string;
+  providers: string[];
+  usage: { bytes: number; from: string; to: string };
+  // When the space first stored data
+  createdAt?: string;
+}
+
+export interface SpaceDelegation {
+  cid: string;
+  space: string;
+  audience: string;
+  capabilities: ServiceAbility[];
+  // Undefined for delegations that never expire
+  expiration?: string;
+  // Delegation archive, as written by `w3 delegation create --output`
+  car: Uint8Array;
+  // Base64 form, usable as `storacha.proof`
+  proof: string;
+}
+
 export interface Logger {
   info(message: string, ...args: any[]): void;
   error(message: string, error?: Error, ...args: any[]): void;
@@ -90,6 +265,10 @@ export interface MigrationProgress {
   errors: Array<{ file: string; error: Error }>;
   transferProgress?: TransferProgress;
   shardProgress?: ShardProgress;
+  partProgress?: PartProgress;
+  currentSource?: string;
+  completedSources?: number;
+  totalSources?: number;
 }
 
 export interface ProgressStatus {
@@ -118,12 +297,33 @@ export interface RetryConfig {
   maxBackoffMs: number;
 }
 
+// `did` or `spaceName` selects the space uploads go to by default
 export interface StorachaConfig {
   email?: string;
+  // Agent private key (from `w3 key create`) for logging in without email
+  agentKey?: string;
+  // Delegation from the space to the agent, as base64 (`proof`) or a CAR file (`proofFile`)
+  proof?: string;
+  proofFile?: string;
+  // Keeps the agent and its delegations on disk so later runs reuse them
+  agentStore?: AgentStoreConfig;
   spaceName?: string;
   did?: string;
 }
 
+export interface AgentStoreConfig {
+  path: string;
+  // Encrypts the stored agent key and delegations
+  passphrase?: string;
+}
+
+// "expired" sessions log in again on their next use
+export type StorachaSessionState =
+  | 'disconnected'
+  | 'connecting'
+  | 'authenticated'
+  | 'expired';
+
 export interface ConnectionConfig {
   s3: S3ServiceConfig;
   storacha: StorachaConfig;
@@ -131,6 +331,7 @@ export interface ConnectionConfig {
 
 export interface MigrationResult {
   success: boolean;
+  jobId?: string;
   cid?: string;
   url?: string;
   size?: number;
@@ -138,10 +339,85 @@ export interface MigrationResult {
   failedFiles?: Array<{ file: string; error: Error }>;
   completedFiles?: number;
   totalFiles?: number;
+  skippedFiles?: SkippedObject[];
+  pathCollisions?: PathCollision[];
+  deleteMarkers?: S3DeleteMarker[];
+  awaitingRestore?: ArchivedObject[];
+  manifest?: MigrationManifest;
+  sync?: SyncSummary;
+}
+
+// Directory jobs always have an ID, needed to resume them
+export interface DirectoryMigrationResult extends MigrationResult {
+  jobId: string;
+}
+
+export interface FileMigrationOptions {
+  // Space DID or name to upload to, instead of the configured space
+  space?: string;
+}
+
+export interface DirectoryMigrationOptions {
+  jobId?: string;
+  // Space DID or name to upload to; kept with the job for resumes
+  space?: string;
+  // Read the key list from an S3 Inventory report instead of listing the bucket
+  inventory?: InventorySource;
+}
+
+export interface SyncOptions {
+  jobId?: string;
+  space?: string;
+}
+
+export interface SyncSummary {
+  previousRootCid?: string;
+  added: string[];
+  modified: string[];
+  removed: string[];
+  unchanged: number;
+}
+
+export interface MigrationFilters {
+  include?: string[];
+  exclude?: string[];
+  minSize?: number;
+  maxSize?: number;
+  modifiedAfter?: Date;
+  modifiedBefore?: Date;
+  contentTypes?: string[];
+  storageClasses?: string[];
+}
+
+export interface PathOptions {
+  stripPrefix?: string;
+  flatten?: boolean;
+}
+
+export interface PathCollision {
+  key: string;
+  path: string;
+  conflictingKey: string;
+}
+
+export interface MetadataOptions {
+  tags?: boolean;
+  sidecar?: boolean;
+}
+
+// Migrates every version of each key instead of only the current one
+export interface VersionOptions {
+  modifiedAfter?: Date;
+  modifiedBefore?: Date;
 }
 
 export interface MigrationOptions {
   batchSize?: number;
+  filters?: MigrationFilters;
+  paths?: PathOptions;
+  versions?: VersionOptions;
+  archive?: ArchiveOptions;
+  metadata?: MetadataOptions;
   concurrency?: number;
   retryAttempts?: number;
   progressCallback?: (progress: MigrationProgress) => void;
@@ -151,10 +427,18 @@ export interface MigrationOptions {
 export interface StorachaMigratorInterface {
   initialize(): Promise<void>;
   close(): Promise<void>;
-  migrateFile(fileKey: string): Promise<UploadResponse>;
-  migrateDirectory(directoryPath: string): Promise<UploadResponse>;
-  createSpace(): Promise<SpaceResponse>;
+  migrateFile(fileKey: string, options?: FileMigrationOptions): Promise<UploadResponse>;
+  migrateDirectory(directoryPath: string, options?: DirectoryMigrationOptions): Promise<DirectoryMigrationResult>;
+  resumeMigration(jobId: string): Promise<DirectoryMigrationResult>;
+  syncDirectory(directoryPath: string, options?: SyncOptions): Promise<DirectoryMigrationResult>;
+  planMigration(directoryPath: string, options?: PlanOptions): Promise<MigrationPlan>;
+  verifyMigration(manifest: MigrationManifest | string, options?: VerificationOptions): Promise<VerificationReport>;
+  migrateSources(job: MultiSourceJob): Promise<MultiSourceMigrationResult>;
+  createSpace(options?: CreateSpaceOptions): Promise<SpaceResponse>;
   setSpace(did: string): Promise<SpaceResponse>;
+  renameSpace(space: string, name: string): Promise<SpaceResponse>;
+  getSpaceInfo(space: string): Promise<SpaceInfo>;
+  delegateSpace(space: string, audienceDid: string, capabilities: ServiceAbility[], expiry?: Date): Promise<SpaceDelegation>;
   listSpaces(): Promise<SpaceResponse[]>;
   listFilesInSpace(did: string): Promise<UploadListItem[]>
   onProgress(callback: (progress: MigrationProgress) => void): void;
@@ -200,3 +484,200 @@ export interface LogEntry {
     error?: Error;
   };
 }
+
+
+export interface DirectoryEntry {
+  path: string;
+  cid: string;
+  size: number;
+  dagByteLength: number;
+  // CAR shards holding the file's blocks, listed in the directory's upload
+  shards?: string[];
+}
+
+export interface DirectoryUploadOptions {
+  // Space DID or name; defaults to the client's target space
+  space?: string;
+  // Linked without uploading; read once every file has been taken from the source
+  existingEntries?: DirectoryEntry[];
+  concurrency?: number;
+  onFileUploaded?: (file: FileData, entry: DirectoryEntry) => void | Promise<void>;
+  onFileFailed?: (file: Pick<FileData, 'key' | 'versionId'>, error: Error) => void | Promise<void>;
+  // Files built from all entries, such as a metadata sidecar, added just before linking
+  additionalFiles?: (entries: DirectoryEntry[]) => Promise<FileData[]>;
+}
+
+export type CheckpointFileState = 'pending' | 'completed' | 'failed' | 'removed' | 'awaitingRestore';
+
+export interface CheckpointFileRecord {
+  key: string;
+  versionId?: string;
+  isLatest?: boolean;
+  state: CheckpointFileState;
+  path?: string;
+  size?: number;
+  etag?: string;
+  contentType?: string;
+  lastModified?: string;
+  metadata?: ObjectMetadata;
+  cid?: string;
+  dagByteLength?: number;
+  shards?: string[];
+  error?: string;
+  updatedAt: string;
+}
+
+export interface MigrationJob {
+  jobId: string;
+  bucketName: string;
+  directoryPath: string;
+  status: 'running' | 'completed' | 'failed';
+  rootCid?: string;
+  space?: string;
+  inventory?: InventorySource;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// loadFiles keys records by objectId(key, versionId)
+export interface CheckpointStore {
+  loadJob(jobId: string): Promise<MigrationJob | undefined>;
+  saveJob(job: MigrationJob): Promise<void>;
+  loadFiles(jobId: string): Promise<Map<string, CheckpointFileRecord>>;
+  recordFiles(jobId: string, records: CheckpointFileRecord[]): Promise<void>;
+}
+
+export interface CheckpointConfig {
+  directory?: string;
+  store?: CheckpointStore;
+}
+
+export interface ManifestEntry {
+  type: 'file' | 'directory' | 'deleteMarker';
+  key: string;
+  versionId?: string;
+  isLatest?: boolean;
+  size: number;
+  etag?: string;
+  contentType?: string;
+  metadata?: ObjectMetadata;
+  cid: string;
+  path: string;
+  directoryCidPath?: string;
+  timestamp: string;
+  source?: string;
+  bucket?: string;
+  space?: string;
+}
+
+export interface MigrationManifest {
+  rootCid?: string;
+  entries: ManifestEntry[];
+  jsonlPath: string;
+  csvPath: string;
+}
+
+export interface ManifestConfig {
+  directory?: string;
+}
+
+export interface VerificationOptions {
+  compareEtag?: boolean;
+  concurrency?: number;
+  // S3 settings for manifest entries from other buckets, as given to migrateSources
+  buckets?: Array<Partial<S3ServiceConfig> & { bucketName: string }>;
+}
+
+export interface VerificationResult {
+  key: string;
+  path: string;
+  expectedCid: string;
+  actualCid?: string;
+  cidMatch: boolean;
+  etagMatch?: boolean;
+  passed: boolean;
+  error?: string;
+}
+
+export interface VerificationReport {
+  passed: boolean;
+  totalFiles: number;
+  passedFiles: number;
+  failedFiles: number;
+  results: VerificationResult[];
+}
+
+export interface PlanOptions {
+  jobId?: string;
+  inventory?: InventorySource;
+  largestObjects?: number;
+  shardSize?: number;
+}
+
+export interface SkippedObject {
+  key: string;
+  versionId?: string;
+  size: number;
+  reason: string;
+}
+
+export interface MigrationPlan {
+  directoryPath: string;
+  totalFiles: number;
+  totalBytes: number;
+  storageClasses: Record<string, { files: number; bytes: number }>;
+  largestObjects: S3ObjectEntry[];
+  skipped: SkippedObject[];
+  deleteMarkers: S3DeleteMarker[];
+  estimatedShards: number;
+  estimatedBatches: number;
+}
+
+export interface MigrationSource {
+  name?: string;
+  // Settings not given here fall back to the migrator's s3 config
+  s3: Partial<S3ServiceConfig> & { bucketName: string };
+  prefix: string;
+  space?: string;
+}
+
+export interface InventorySource {
+  // Local path or s3://bucket/key of the report's manifest.json
+  manifest: string;
+  // Local directory holding the data files (default: ../data next to the manifest)
+  dataDirectory?: string;
+  // Settings for reading the report from its destination bucket
+  s3?: Partial<S3ServiceConfig>;
+}
+
+export interface InventoryManifest {
+  sourceBucket: string;
+  destinationBucket: string;
+  fileFormat: string;
+  fileSchema: string;
+  files: Array<{ key: string; size?: number; MD5checksum?: string }>;
+  creationTimestamp?: string;
+}
+
+export interface MultiSourceJob {
+  jobId?: string;
+  sources: MigrationSource[];
+}
+
+export interface SourceMigrationResult {
+  name: string;
+  bucketName: string;
+  prefix: string;
+  space?: string;
+  result: MigrationResult;
+}
+
+export interface MultiSourceMigrationResult {
+  success: boolean;
+  jobId: string;
+  totalFiles: number;
+  completedFiles: number;
+  failedFiles: number;
+  sources: SourceMigrationResult[];
+  manifest: MigrationManifest;
+}
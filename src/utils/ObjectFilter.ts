@@ -0,0 +1,129 @@
+import { MigrationFilters, S3ObjectEntry } from '../types/index.js';
+import { relativePath } from './pathResolver.js';
+
+export class ObjectFilter {
+  private readonly filters: MigrationFilters;
+  private readonly directoryPath: string;
+  private readonly getContentType?: (entry: S3ObjectEntry) => Promise<string | undefined>;
+  private readonly include: GlobPattern[];
+  private readonly exclude: GlobPattern[];
+
+  constructor(
+    filters: MigrationFilters = {},
+    directoryPath: string,
+    getContentType?: (entry: S3ObjectEntry) => Promise<string | undefined>
+  ) {
+    this.filters = filters;
+    this.directoryPath = directoryPath;
+    this.getContentType = getContentType;
+    this.include = (filters.include ?? []).map(compileGlob);
+    this.exclude = (filters.exclude ?? []).map(compileGlob);
+  }
+
+  /**
+   * Returns why an object should be skipped, or undefined if it should be
+   * migrated. Listing fields are checked first; the content type is only
+   * looked up (with a HEAD request) when a content-type filter is set.
+   */
+  async getSkipReason(entry: S3ObjectEntry): Promise<string | undefined> {
+    const { filters } = this;
+
+    if (entry.key.endsWith('/') && entry.size === 0) return 'directory placeholder';
+
+    const path = relativePath(entry.key, this.directoryPath);
+    const excluded = this.exclude.find((glob) => matchesGlob(glob, path));
+    if (excluded) return `excluded by pattern ${excluded.pattern}`;
+    if (this.include.length > 0 && !this.include.some((glob) => matchesGlob(glob, path))) {
+      return 'not matched by include patterns';
+    }
+
+    if (filters.minSize !== undefined && entry.size < filters.minSize) return `smaller than ${filters.minSize} bytes`;
+    if (filters.maxSize !== undefined && entry.size > filters.maxSize) return `larger than ${filters.maxSize} bytes`;
+
+    if (entry.lastModified) {
+      if (filters.modifiedAfter && entry.lastModified < filters.modifiedAfter) {
+        return `modified before ${filters.modifiedAfter.toISOString()}`;
+      }
+      if (filters.modifiedBefore && entry.lastModified > filters.modifiedBefore) {
+        return `modified after ${filters.modifiedBefore.toISOString()}`;
+      }
+    }
+
+    const storageClass = entry.storageClass ?? 'STANDARD';
+    if (filters.storageClasses?.length && !filters.storageClasses.includes(storageClass)) {
+      return `storage class ${storageClass}`;
+    }
+
+    if (filters.contentTypes?.length && this.getContentType) {
+      const contentType = (await this.getContentType(entry)) ?? 'application/octet-stream';
+      if (!filters.contentTypes.some((allowed) => matchesContentType(allowed, contentType))) {
+        return `content type ${contentType}`;
+      }
+    }
+
+    return undefined;
+  }
+}
+
+interface GlobPattern {
+  pattern: string;
+  regex: RegExp;
+  matchesFullPath: boolean;
+}
+
+function compileGlob(pattern: string): GlobPattern {
+  return { pattern, regex: globToRegExp(pattern), matchesFullPath: pattern.includes('/') };
+}
+
+// Patterns without a slash match the file name at any depth, like .gitignore
+function matchesGlob(glob: GlobPattern, path: string): boolean {
+  if (glob.matchesFullPath) return glob.regex.test(path);
+  return glob.regex.test(path.split('/').pop() || path);
+}
+
+function matchesContentType(allowed: string, contentType: string): boolean {
+  const type = contentType.split(';')[0].trim().toLowerCase();
+  const pattern = allowed.toLowerCase();
+  return pattern.endsWith('/*') ? type.startsWith(pattern.slice(0, -1)) : type === pattern;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+/**
+ * Converts a glob to a regular expression. Supports `*`, `**`, `?` and
+ * `{a,b}` alternatives.
+ */
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        i++;
+        if (pattern[i + 1] === '/') {
+          i++;
+          source += '(?:.*\\/)?';
+        } else {
+          source += '.*';
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{' && pattern.indexOf('}', i) > i) {
+      const end = pattern.indexOf('}', i);
+      const alternatives = pattern.slice(i + 1, end).split(',').map(escapeRegExp);
+      source += `(?:${alternatives.join('|')})`;
+      i = end;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
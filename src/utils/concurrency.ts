@@ -0,0 +1,78 @@
+type Source<T> = Iterable<T> | AsyncIterable<T>;
+
+/**
+ * Runs `worker` over every item with at most `concurrency` calls in flight.
+ * Each slot pulls the next item as soon as its previous one finishes, so a
+ * slow item only holds up its own slot. Resolves once every slot is done and
+ * rejects with the first error after the others have settled.
+ */
+export async function runWithConcurrency<T>(
+  items: Source<T>,
+  concurrency: number,
+  worker: (item: T) => Promise<void>
+): Promise<void> {
+  const iterator = toAsyncIterator(items);
+  const slots = Array.from({ length: Math.max(1, concurrency) }, async () => {
+    for (;;) {
+      const { done, value } = await iterator.next();
+      if (done) return;
+      await worker(value);
+    }
+  });
+
+  const results = await Promise.allSettled(slots);
+  const failure = results.find((result) => result.status === 'rejected');
+  if (failure) throw (failure as PromiseRejectedResult).reason;
+}
+
+/**
+ * Maps items with at most `concurrency` calls in flight and yields results
+ * as they complete. New calls only start while the consumer keeps pulling,
+ * so a slow consumer bounds how far this stage runs ahead.
+ */
+export async function* mapWithConcurrency<T, R>(
+  items: Source<T>,
+  concurrency: number,
+  mapper: (item: T) => Promise<R>
+): AsyncGenerator<R> {
+  type Settled = { id: number; result?: R; error?: unknown; failed: boolean };
+  const iterator = toAsyncIterator(items);
+  const inFlight = new Map<number, Promise<Settled>>();
+  const limit = Math.max(1, concurrency);
+  let nextId = 0;
+  let exhausted = false;
+
+  const fill = async () => {
+    while (!exhausted && inFlight.size < limit) {
+      const { done, value } = await iterator.next();
+      if (done) {
+        exhausted = true;
+        return;
+      }
+      const id = nextId++;
+      inFlight.set(
+        id,
+        mapper(value).then(
+          (result) => ({ id, result, failed: false }),
+          (error) => ({ id, error, failed: true })
+        )
+      );
+    }
+  };
+
+  await fill();
+  while (inFlight.size > 0) {
+    const settled = await Promise.race(inFlight.values());
+    inFlight.delete(settled.id);
+    if (settled.failed) throw settled.error;
+    yield settled.result as R;
+    await fill();
+  }
+}
+
+// Async generators queue concurrent next() calls, so slots can share one
+function toAsyncIterator<T>(items: Source<T>): AsyncIterator<T> {
+  return (async function* () {
+    yield* items;
+  })();
+}
@@ -0,0 +1,139 @@
+import * as PieceHasher from "@web3-storage/data-segment/multihash";
+import { Storefront } from "@web3-storage/filecoin-client";
+import { indexShardedDAG } from "@web3-storage/blob-index";
+import {
+  Blob,
+  CAR,
+  Index,
+  ShardingStream,
+  Upload,
+} from "@web3-storage/upload-client";
+import * as Link from "multiformats/link";
+import * as raw from "multiformats/codecs/raw";
+import { sha256 } from "multiformats/hashes/sha2";
+import {
+  AnyLink,
+  CARLink,
+  InvocationConfigurator,
+  PieceLink,
+  SliceDigest,
+  Position,
+  UploadOptions,
+} from "@web3-storage/upload-client/types";
+
+// Shards listed per upload/add invocation; the service merges the shards of repeated registrations of a root
+const SHARDS_PER_REGISTRATION = 1000;
+
+export interface StoredDag {
+  root: AnyLink;
+  shards: CARLink[];
+}
+
+/**
+ * Stores a DAG the way the upload-client's uploadCAR does: blocks are
+ * sharded into CARs, each shard is added to the space and offered for a
+ * Filecoin deal, and an index of the shards' blocks is registered. Unlike
+ * uploadCAR no upload is registered, so the DAG can be linked into a larger
+ * one that is registered once with registerUpload.
+ */
+export async function storeDag(
+  configure: InvocationConfigurator,
+  blocks: ReadableStream<CAR.Block>,
+  { pieceHasher = PieceHasher, ...options }: UploadOptions = {}
+): Promise<StoredDag> {
+  const shards: CARLink[] = [];
+  const shardIndexes: Array<Map<SliceDigest, Position>> = [];
+  let root: AnyLink | undefined;
+
+  await blocks.pipeThrough(new ShardingStream(options)).pipeTo(
+    new WritableStream({
+      async write(car) {
+        const bytes = new Uint8Array(await car.arrayBuffer());
+        const digest = await sha256.digest(bytes);
+        const conf = await configure([
+          {
+            can: "space/blob/add",
+            nb: { blob: { digest: digest.bytes, size: bytes.length } },
+          },
+        ]);
+        await Blob.add(conf, digest, bytes, options);
+
+        const cid = Link.create(CAR.code, digest);
+        if (pieceHasher) {
+          const piece = Link.create(
+            raw.code,
+            await pieceHasher.digest(bytes)
+          ) as PieceLink;
+          const result = await Storefront.filecoinOffer(
+            {
+              issuer: conf.issuer,
+              audience: conf.audience,
+              // Offers are self-issued: the resource is the agent's own DID
+              with: conf.issuer.did(),
+              proofs: conf.proofs,
+            },
+            Link.create(raw.code, digest),
+            piece,
+            options
+          );
+          if (result.out.error) {
+            throw new Error(
+              `Failed to offer shard ${cid} for a Filecoin deal: ${result.out.error.message}`
+            );
+          }
+        }
+
+        root = root ?? car.roots[0];
+        shards.push(cid);
+        car.slices.set(cid.multihash, [0, car.size]);
+        shardIndexes.push(car.slices);
+        options.onShardStored?.({ ...car, cid });
+      },
+    })
+  );
+
+  if (!root) throw new Error("DAG produced no blocks");
+
+  const index = await indexShardedDAG(root as Link.Link, shards, shardIndexes);
+  if (!index.ok) {
+    throw new Error(`Failed to build the DAG index for ${root}`);
+  }
+  const indexDigest = await sha256.digest(index.ok);
+  const indexLink = Link.create(CAR.code, indexDigest);
+  const blobAddConf = await configure([
+    {
+      can: "space/blob/add",
+      nb: { blob: { digest: indexDigest.bytes, size: index.ok.length } },
+    },
+  ]);
+  await Blob.add(blobAddConf, indexDigest, index.ok, options);
+  const indexAddConf = await configure([
+    { can: "space/index/add", nb: { index: indexLink } },
+  ]);
+  await Index.add(indexAddConf, indexLink, options);
+
+  return { root, shards };
+}
+
+/**
+ * Registers a single upload for a root stored with storeDag, listing every
+ * shard that holds a block of its DAG. Duplicate shards are listed once.
+ */
+export async function registerUpload(
+  configure: InvocationConfigurator,
+  root: AnyLink,
+  shards: CARLink[],
+  options: UploadOptions = {}
+): Promise<void> {
+  const unique = [
+    ...new Map(shards.map((shard) => [shard.toString(), shard])).values(),
+  ];
+
+  for (let i = 0; i === 0 || i < unique.length; i += SHARDS_PER_REGISTRATION) {
+    const batch = unique.slice(i, i + SHARDS_PER_REGISTRATION);
+    const conf = await configure([
+      { can: "upload/add", nb: { root, shards: batch } },
+    ]);
+    await Upload.add(conf, root, batch, options);
+  }
+}
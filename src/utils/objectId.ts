@@ -0,0 +1,8 @@
+/**
+ * Identifies an object within a migration job. The key alone identifies the
+ * current object; a specific version is addressed the way S3 URLs do, so
+ * every version of a key gets its own checkpoint record and path.
+ */
+export function objectId(key: string, versionId?: string): string {
+  return versionId ? `${key}?versionId=${versionId}` : key;
+}
@@ -0,0 +1,108 @@
+import { PathCollision, PathOptions } from '../types/index.js';
+import { objectId } from './objectId.js';
+
+/**
+ * Maps S3 objects to paths inside the uploaded directory, relative to the
+ * migrated prefix (or `stripPrefix`), keyed by object ID. Object versions
+ * are laid out as `<key>/.versions/<versionId>`. Objects whose path
+ * duplicates an earlier file, or that would need a file to also be a
+ * directory, are left out of the mapping and reported as collisions.
+ */
+export function resolveDirectoryPaths(
+  objects: Array<{ key: string; versionId?: string }>,
+  directoryPath: string,
+  options: PathOptions = {}
+): { paths: Map<string, string>; collisions: PathCollision[] } {
+  const resolver = new DirectoryPathResolver(directoryPath, options);
+  const paths = new Map<string, string>();
+
+  for (const object of objects) {
+    const path = resolver.claim(object);
+    if (path !== undefined) paths.set(objectId(object.key, object.versionId), path);
+  }
+
+  return { paths, collisions: resolver.collisions };
+}
+
+/**
+ * Assigns directory paths one object at a time, in listing order, so a
+ * listing can be mapped while it streams. Only the claimed paths are kept.
+ */
+export class DirectoryPathResolver {
+  readonly collisions: PathCollision[] = [];
+  private readonly base: string;
+  private readonly options: PathOptions;
+  private readonly files = new Map<string, string>();
+  private readonly directories = new Map<string, string>();
+
+  constructor(directoryPath: string, options: PathOptions = {}) {
+    this.base = options.stripPrefix ?? directoryPath;
+    this.options = options;
+  }
+
+  /**
+   * Returns the path an object maps to, whether or not it was claimed
+   */
+  pathOf(object: { key: string; versionId?: string }): string {
+    const basePath = this.options.flatten ? fileName(object.key) : relativePath(object.key, this.base);
+    return object.versionId ? `${basePath}/.versions/${object.versionId}` : basePath;
+  }
+
+  /**
+   * Claims an object's path. Returns undefined, and records a collision, if
+   * an earlier object already holds the path or needs it as a directory.
+   */
+  claim(object: { key: string; versionId?: string }): string | undefined {
+    const key = objectId(object.key, object.versionId);
+    const path = this.pathOf(object);
+    const segments = path.split('/');
+    const ancestors = segments.slice(0, -1).map((_, i) => segments.slice(0, i + 1).join('/'));
+
+    const conflictingKey =
+      this.files.get(path) ??
+      this.directories.get(path) ??
+      ancestors.map((ancestor) => this.files.get(ancestor)).find(Boolean);
+
+    if (conflictingKey) {
+      this.collisions.push({ key, path, conflictingKey });
+      return undefined;
+    }
+
+    this.files.set(path, key);
+    for (const ancestor of ancestors) {
+      if (!this.directories.has(ancestor)) this.directories.set(ancestor, key);
+    }
+    return path;
+  }
+
+  /**
+   * Returns the object ID of the file claimed at a path, if any
+   */
+  fileAt(path: string): string | undefined {
+    return this.files.get(path);
+  }
+}
+
+/**
+ * Returns a key's path relative to the migrated prefix. A partial prefix
+ * such as `photos/20` is relative to its parent folder, so the key keeps
+ * the whole name of the folder it is in.
+ */
+export function relativePath(key: string, base: string): string {
+  let relative = key;
+  if (base && key.startsWith(`${base.replace(/\/+$/, '')}/`)) {
+    relative = key.slice(base.replace(/\/+$/, '').length + 1);
+  } else if (key.startsWith(base)) {
+    relative = key.slice(base.lastIndexOf('/') + 1);
+  }
+
+  return normalize(relative) || fileName(key);
+}
+
+function fileName(key: string): string {
+  return normalize(key).split('/').pop() || key;
+}
+
+function normalize(path: string): string {
+  return path.split('/').filter(Boolean).join('/');
+}
@@ -0,0 +1,98 @@
+import fs from 'fs';
+import https from 'https';
+import { S3Client, S3ClientConfig } from '@aws-sdk/client-s3';
+import { NodeHttpHandler } from '@smithy/node-http-handler';
+import { fromNodeProviderChain, fromTemporaryCredentials } from '@aws-sdk/credential-providers';
+import { S3ServiceConfig } from '../types/index.js';
+
+// Who signs requests and where they go. Another bucket's config that sets any of these sets them all
+const CONNECTION_SETTINGS = ['credentials', 'profile', 'assumeRole', 'endpoint', 'forcePathStyle', 'tls', 'signature'] as const;
+// Settings that only apply to the bucket they were configured for
+const BUCKET_SETTINGS = ['requesterPays', 'sseCustomerKeys'] as const;
+
+/**
+ * Creates an S3 client from the tool's S3 configuration. A custom endpoint
+ * points the client at S3-compatible stores such as MinIO, R2, Wasabi or
+ * Ceph, which usually also need path-style addressing.
+ */
+export function createS3Client(config: S3ServiceConfig): S3Client {
+  const { signature, tls } = config;
+  const clientConfig: S3ClientConfig = {
+    region: config.region,
+    credentials: createCredentialProvider(config),
+    endpoint: config.endpoint,
+    forcePathStyle: config.forcePathStyle,
+    signingEscapePath: signature?.escapePath,
+    // Many S3-compatible stores reject the checksum headers the SDK adds by default
+    requestChecksumCalculation: signature?.checksums,
+    responseChecksumValidation: signature?.checksums,
+  };
+
+  if (signature?.region) {
+    clientConfig.signingRegion = signature.region;
+  }
+
+  if (tls) {
+    clientConfig.requestHandler = new NodeHttpHandler({
+      httpsAgent: new https.Agent({
+        keepAlive: true,
+        ca: readCertificates(tls.ca, tls.caFile),
+        rejectUnauthorized: tls.rejectUnauthorized ?? true,
+      }),
+    });
+  }
+
+  return new S3Client(clientConfig);
+}
+
+/**
+ * Builds the config for another bucket on top of the migrator's. Connection
+ * settings are only inherited as a whole: a bucket that sets its own
+ * credentials, profile, role or endpoint gets none of the migrator's, so a
+ * profile for another account is never signed with the primary keys.
+ * Requester-pays and SSE-C keys are never inherited.
+ */
+export function createBucketConfig(
+  base: S3ServiceConfig,
+  overrides: Partial<S3ServiceConfig> & { bucketName: string }
+): S3ServiceConfig {
+  const inherited: Partial<S3ServiceConfig> = { ...base };
+  for (const setting of BUCKET_SETTINGS) delete inherited[setting];
+  if (CONNECTION_SETTINGS.some((setting) => overrides[setting] !== undefined)) {
+    for (const setting of CONNECTION_SETTINGS) delete inherited[setting];
+  }
+  return { ...inherited, ...overrides } as S3ServiceConfig;
+}
+
+/**
+ * Resolves the credentials an S3 client signs with. Without explicit keys or
+ * a provider function the default AWS chain is used (environment, shared
+ * config and SSO profiles, web identity, container and instance roles). With
+ * `assumeRole` those credentials only sign the STS call for the role.
+ * Anything that expires is refreshed by the client before it does.
+ */
+function createCredentialProvider(config: S3ServiceConfig): S3ClientConfig['credentials'] {
+  if (config.credentials && config.profile) {
+    throw new Error(`S3 config for ${config.bucketName} sets both credentials and profile; use only one`);
+  }
+  const base = config.credentials ?? fromNodeProviderChain({ profile: config.profile });
+  if (!config.assumeRole) return base;
+
+  const { roleArn, externalId, sessionName, durationSeconds, region } = config.assumeRole;
+  return fromTemporaryCredentials({
+    masterCredentials: base,
+    params: {
+      RoleArn: roleArn,
+      ExternalId: externalId,
+      RoleSessionName: sessionName ?? `storacha-migration-${Date.now()}`,
+      DurationSeconds: durationSeconds,
+    },
+    clientConfig: { region: region ?? config.region },
+  });
+}
+
+function readCertificates(ca?: string | string[], caFile?: string): string[] | undefined {
+  const certificates = ca === undefined ? [] : Array.isArray(ca) ? [...ca] : [ca];
+  if (caFile) certificates.push(fs.readFileSync(caFile, 'utf8'));
+  return certificates.length > 0 ? certificates : undefined;
+}
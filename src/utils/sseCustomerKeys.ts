@@ -0,0 +1,58 @@
+import fs from 'fs';
+import { SseCustomerKey, SseCustomerKeyConfig } from '../types/index.js';
+
+export interface SseRequestParams {
+  SSECustomerAlgorithm?: string;
+  SSECustomerKey?: string;
+}
+
+/**
+ * Creates a lookup from object keys to the SSE-C request parameters needed
+ * to read them. Keys from `keys` and `keyFile` are matched by the longest
+ * prefix of the object key; `resolveKey` is asked first when set. The key
+ * file is read once, on first use.
+ */
+export function createSseKeyResolver(
+  config?: SseCustomerKeyConfig
+): (objectKey: string) => Promise<SseRequestParams> {
+  if (!config) return async () => ({});
+
+  let prefixKeys: Promise<Array<[string, SseCustomerKey]>> | undefined;
+  const loadPrefixKeys = () =>
+    (prefixKeys ??= readKeyFile(config.keyFile).then((fileKeys) =>
+      Object.entries({ ...fileKeys, ...config.keys }).sort(
+        ([a], [b]) => b.length - a.length
+      )
+    ));
+
+  return async (objectKey) => {
+    let key = await config.resolveKey?.(objectKey);
+    if (key === undefined) {
+      key = (await loadPrefixKeys()).find(([prefix]) => objectKey.startsWith(prefix))?.[1];
+    }
+    if (key === undefined) return {};
+
+    return {
+      SSECustomerAlgorithm: config.algorithm ?? 'AES256',
+      SSECustomerKey: encodeKey(key, objectKey),
+    };
+  };
+}
+
+async function readKeyFile(keyFile?: string): Promise<Record<string, string>> {
+  if (!keyFile) return {};
+  const keys = JSON.parse(await fs.promises.readFile(keyFile, 'utf8'));
+  if (!keys || typeof keys !== 'object' || Array.isArray(keys)) {
+    throw new Error(`SSE-C key file ${keyFile} must map key prefixes to base64 keys`);
+  }
+  return keys;
+}
+
+// Passed to the SDK as base64, which also adds the key's MD5 to the request
+function encodeKey(key: SseCustomerKey, objectKey: string): string {
+  const bytes = typeof key === 'string' ? Buffer.from(key, 'base64') : Buffer.from(key);
+  if (bytes.length !== 32) {
+    throw new Error(`SSE-C key for ${objectKey} must be 256 bits, got ${bytes.length * 8}`);
+  }
+  return bytes.toString('base64');
+}
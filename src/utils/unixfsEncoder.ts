@@ -0,0 +1,166 @@
+import * as UnixFS from "@ipld/unixfs";
+import type { DirectoryLink, FileLink } from "@ipld/unixfs/directory";
+import { withMaxChunkSize } from "@ipld/unixfs/file/chunker/fixed";
+import { withWidth } from "@ipld/unixfs/file/layout/balanced";
+import { CID } from "multiformats";
+import * as raw from "multiformats/codecs/raw";
+import { CAR } from "@web3-storage/upload-client";
+import { AnyLink, BlobLike } from "@web3-storage/upload-client/types";
+import { DirectoryEntry } from "../types/index.js";
+
+// Same threshold the upload-client uses before switching to a HAMT directory
+const SHARD_THRESHOLD = 1000;
+
+// The upload-client's file settings, so files get the CIDs uploadFile gives them
+const fileSettings = UnixFS.configure({
+  fileChunkEncoder: raw,
+  smallFileEncoder: raw,
+  chunker: withMaxChunkSize(1024 * 1024),
+  fileLayout: withWidth(1024),
+});
+
+type DirectoryTree = Map<string, DirectoryEntry | DirectoryTree>;
+
+export interface EncodedFile {
+  blocks: ReadableStream<CAR.Block>;
+  dagByteLength: () => number;
+}
+
+/**
+ * Encodes a file into a stream of UnixFS blocks using the upload-client's
+ * settings, tracking the cumulative DAG size needed to link it into a
+ * directory later without re-encoding it. Unlike the upload-client's
+ * encoder, a failed read of the file errors the block stream, so callers
+ * see the failure instead of an unhandled rejection.
+ */
+export function encodeFile(file: BlobLike): EncodedFile {
+  const { readable, writable } = new TransformStream<CAR.Block, CAR.Block>(
+    {},
+    UnixFS.withCapacity()
+  );
+  const writer = UnixFS.createWriter({ writable, settings: fileSettings });
+  let dagByteLength = 0;
+
+  const encode = async () => {
+    const fileWriter = UnixFS.createFileWriter(writer);
+    await file.stream().pipeTo(
+      new WritableStream({
+        async write(chunk) {
+          await fileWriter.write(chunk);
+        },
+      })
+    );
+    await fileWriter.close();
+    await writer.close();
+  };
+  encode().catch(async (error) => {
+    try {
+      await writer.writer.abort(
+        error instanceof Error ? error : new Error(String(error))
+      );
+    } catch {
+      // The block stream is already errored or cancelled
+    }
+  });
+
+  return {
+    blocks: readable.pipeThrough(
+      new TransformStream<CAR.Block, CAR.Block>({
+        transform(block, controller) {
+          dagByteLength += block.bytes.length;
+          controller.enqueue(block);
+        },
+      })
+    ),
+    dagByteLength: () => dagByteLength,
+  };
+}
+
+/**
+ * Computes the root CID a file would be uploaded under, without storing or
+ * retaining any of its blocks.
+ */
+export async function computeFileCid(file: BlobLike): Promise<AnyLink> {
+  let root: AnyLink | undefined;
+  await encodeFile(file).blocks.pipeTo(
+    new WritableStream<CAR.Block>({
+      write(block) {
+        root = block.cid;
+      },
+    })
+  );
+
+  if (!root) throw new Error("File produced no blocks");
+  return root;
+}
+
+/**
+ * Builds UnixFS directory nodes over entries that are already stored,
+ * nesting them by their `/`-separated paths, and returns the directory
+ * blocks as a CAR rooted at the new directory.
+ */
+export async function encodeDirectoryFromEntries(
+  entries: DirectoryEntry[]
+): Promise<{ cid: AnyLink; car: BlobLike }> {
+  const tree: DirectoryTree = new Map();
+  for (const entry of entries) {
+    const segments = entry.path.split("/").filter(Boolean);
+    const name = segments.pop();
+    if (!name) continue;
+
+    let node = tree;
+    for (const segment of segments) {
+      let child = node.get(segment);
+      if (!(child instanceof Map)) {
+        child = new Map();
+        node.set(segment, child);
+      }
+      node = child;
+    }
+    node.set(name, entry);
+  }
+
+  const { readable, writable } = new TransformStream<CAR.Block, CAR.Block>(
+    {},
+    UnixFS.withCapacity()
+  );
+  const blocks: CAR.Block[] = [];
+  const collected = readable.pipeTo(
+    new WritableStream({
+      write(block) {
+        blocks.push(block);
+      },
+    })
+  );
+
+  const writer = UnixFS.createWriter({ writable });
+  const root = await writeDirectory(writer, tree);
+  await writer.close();
+  await collected;
+
+  return { cid: root.cid, car: await CAR.encode(blocks, root.cid) };
+}
+
+async function writeDirectory(
+  writer: UnixFS.View,
+  tree: DirectoryTree
+): Promise<DirectoryLink> {
+  const directory =
+    tree.size <= SHARD_THRESHOLD
+      ? UnixFS.createDirectoryWriter(writer)
+      : UnixFS.createShardedDirectoryWriter(writer);
+
+  for (const [name, child] of tree) {
+    const link =
+      child instanceof Map
+        ? await writeDirectory(writer, child)
+        : ({
+            cid: CID.parse(child.cid),
+            dagByteLength: child.dagByteLength,
+            contentByteLength: child.size,
+          } as FileLink);
+    directory.set(name, link);
+  }
+
+  return directory.close();
+}
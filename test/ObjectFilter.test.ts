@@ -0,0 +1,77 @@
+import { ObjectFilter } from "../src/utils/ObjectFilter.js";
+import { MigrationFilters, S3ObjectEntry } from "../src/types/index.js";
+
+const entry = (key: string, fields: Partial<S3ObjectEntry> = {}): S3ObjectEntry => ({
+  key,
+  size: 10,
+  ...fields,
+});
+
+const skipReason = (filters: MigrationFilters, object: S3ObjectEntry, directoryPath = "photos/") =>
+  new ObjectFilter(filters, directoryPath).getSkipReason(object);
+
+describe("ObjectFilter", () => {
+  it("skips folder placeholders", async () => {
+    expect(await skipReason({}, entry("photos/2024/", { size: 0 }))).toBe("directory placeholder");
+  });
+
+  it("matches patterns without a slash against file names at any depth", async () => {
+    const filters = { exclude: ["*.tmp"] };
+
+    expect(await skipReason(filters, entry("photos/a/b/c.tmp"))).toBe("excluded by pattern *.tmp");
+    expect(await skipReason(filters, entry("photos/a/b/c.jpg"))).toBeUndefined();
+  });
+
+  it("matches patterns with a slash against the path relative to the prefix", async () => {
+    const filters = { include: ["2024/**/*.{jpg,png}"] };
+
+    expect(await skipReason(filters, entry("photos/2024/x/a.png"))).toBeUndefined();
+    expect(await skipReason(filters, entry("photos/2024/a.jpg"))).toBeUndefined();
+    expect(await skipReason(filters, entry("photos/2025/a.jpg"))).toBe("not matched by include patterns");
+  });
+
+  it("matches paths relative to the parent folder of a partial prefix", async () => {
+    const filters = { include: ["2024/**"] };
+
+    expect(await skipReason(filters, entry("photos/2024/a.jpg"), "photos/20")).toBeUndefined();
+    expect(await skipReason(filters, entry("photos/2025/a.jpg"), "photos/20")).toBe(
+      "not matched by include patterns"
+    );
+  });
+
+  it("lets exclude patterns win over include patterns", async () => {
+    const filters = { include: ["*.jpg"], exclude: ["private/**"] };
+
+    expect(await skipReason(filters, entry("photos/private/a.jpg"))).toBe("excluded by pattern private/**");
+  });
+
+  it("filters by size, modification time and storage class", async () => {
+    const filters: MigrationFilters = {
+      minSize: 5,
+      maxSize: 100,
+      modifiedAfter: new Date("2024-01-01"),
+      storageClasses: ["STANDARD"],
+    };
+
+    expect(await skipReason(filters, entry("photos/a", { size: 1 }))).toBe("smaller than 5 bytes");
+    expect(await skipReason(filters, entry("photos/a", { size: 500 }))).toBe("larger than 100 bytes");
+    expect(await skipReason(filters, entry("photos/a", { lastModified: new Date("2023-06-01") }))).toBe(
+      "modified before 2024-01-01T00:00:00.000Z"
+    );
+    expect(await skipReason(filters, entry("photos/a", { storageClass: "GLACIER" }))).toBe("storage class GLACIER");
+    expect(await skipReason(filters, entry("photos/a"))).toBeUndefined();
+  });
+
+  it("only looks up content types once the listing filters pass", async () => {
+    const lookups: string[] = [];
+    const filter = new ObjectFilter({ exclude: ["*.tmp"], contentTypes: ["image/*"] }, "photos/", async ({ key }) => {
+      lookups.push(key);
+      return key.endsWith(".jpg") ? "image/jpeg" : "text/plain; charset=utf-8";
+    });
+
+    expect(await filter.getSkipReason(entry("photos/a.tmp"))).toBe("excluded by pattern *.tmp");
+    expect(await filter.getSkipReason(entry("photos/a.jpg"))).toBeUndefined();
+    expect(await filter.getSkipReason(entry("photos/a.txt"))).toBe("content type text/plain; charset=utf-8");
+    expect(lookups).toEqual(["photos/a.jpg", "photos/a.txt"]);
+  });
+});
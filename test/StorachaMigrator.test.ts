@@ -0,0 +1,157 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { jest } from "@jest/globals";
+import type { AnyLink } from "@web3-storage/upload-client/types";
+import type { FileData, MigrationOptions, S3ObjectEntry } from "../src/types/index.js";
+
+// Stores nothing: the DAG's root is all a migration needs from an upload
+jest.unstable_mockModule("../src/utils/dagStore.js", () => ({
+  storeDag: async (_conf: unknown, blocks: ReadableStream<{ cid: AnyLink }>, options: { rootCID?: AnyLink } = {}) => {
+    let root: AnyLink | undefined;
+    await blocks.pipeTo(
+      new WritableStream({
+        write(block) {
+          root = block.cid;
+        },
+      })
+    );
+    return { root: options.rootCID ?? root, shards: [] };
+  },
+  registerUpload: async () => {},
+}));
+
+const { StorachaMigrator } = await import("../src/StorachaMigrator.js");
+const { StorachaClient } = await import("../src/services/storachaService.js");
+
+const silent = { info() {}, warn() {}, error() {}, debug() {} };
+
+// Runs encode a few thousand small files
+const RUN_TIMEOUT = 60_000;
+
+describe("StorachaMigrator directory runs", () => {
+  let directory: string;
+  // Current contents of the listed objects, by key
+  let bucket: Map<string, string>;
+
+  const createMigrator = (options?: MigrationOptions) => {
+    const migrator = new StorachaMigrator(
+      {
+        s3: { bucketName: "bucket", region: "us-east-1", credentials: { accessKeyId: "key", secretAccessKey: "secret" } },
+        storacha: { email: "user@example.com" },
+        retry: { maxAttempts: 1, backoffMs: 1, maxBackoffMs: 1 },
+        batch: { size: 100, concurrency: 4 },
+        checkpoint: { directory: path.join(directory, "checkpoints") },
+        manifest: { directory: path.join(directory, "manifests") },
+      },
+      options,
+      silent
+    );
+    const { s3Service, connectionManager } = migrator as any;
+
+    s3Service.listObjectsInS3Directory = async function* (): AsyncGenerator<S3ObjectEntry> {
+      for (const [key, contents] of bucket) yield { key, size: contents.length, etag: contents };
+    };
+    jest.spyOn(s3Service, "openFile").mockImplementation(async (entry: any): Promise<FileData> => {
+      const contents = bucket.get(entry.key) ?? "";
+      return {
+        key: entry.key,
+        fileName: entry.key,
+        size: contents.length,
+        etag: contents,
+        stream: () => new Blob([contents]).stream(),
+      };
+    });
+
+    const storacha = new StorachaClient();
+    jest.spyOn(storacha as any, "prepareUpload").mockImplementation(async () => async () => ({}));
+    connectionManager.storachaConnection = storacha;
+    return migrator;
+  };
+
+  const files = (count: number, version: (index: number) => string) =>
+    new Map(Array.from({ length: count }, (_, i) => [`p/f${String(i).padStart(4, "0")}`, `${version(i)}-${i}`]));
+
+  // The root a first migration of the bucket's current contents links
+  const freshRoot = async () => {
+    const migrator = createMigrator();
+    const result = await migrator.migrateDirectory("p/", { jobId: `fresh-${Date.now()}` });
+    await migrator.close();
+    return result.cid;
+  };
+
+  beforeEach(async () => {
+    directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), "migrator-"));
+    jest.spyOn(process, "cwd").mockReturnValue(directory);
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  });
+
+  it("links files reused after the first changed batch into a resumed job", async () => {
+    bucket = files(1200, () => "v1");
+    const migrator = createMigrator();
+    await migrator.migrateDirectory("p/", { jobId: "job" });
+
+    bucket = files(1200, (i) => (i >= 100 && i < 700 ? "v2" : "v1"));
+    const result = await migrator.resumeMigration("job");
+    await migrator.close();
+
+    expect(result).toMatchObject({ success: true, totalFiles: 1200, completedFiles: 1200 });
+    expect(result.sync?.modified).toHaveLength(600);
+    expect(result.cid).toBe(await freshRoot());
+  }, RUN_TIMEOUT);
+
+  it("links every unchanged file when a sync finds changes", async () => {
+    bucket = files(1200, () => "v1");
+    const migrator = createMigrator();
+    const first = await migrator.syncDirectory("p/");
+
+    bucket = files(1200, (i) => (i >= 550 && i < 650 ? "v2" : "v1"));
+    const result = await migrator.syncDirectory("p/");
+    await migrator.close();
+
+    expect(result.sync).toMatchObject({
+      previousRootCid: first.cid,
+      added: [],
+      removed: [],
+      unchanged: 1100,
+    });
+    expect(result.sync?.modified).toHaveLength(100);
+    expect(result.manifest?.entries.filter(({ type }) => type === "file")).toHaveLength(1200);
+    expect(result.cid).not.toBe(first.cid);
+    expect(result.cid).toBe(await freshRoot());
+  }, RUN_TIMEOUT);
+
+  it("checks content types concurrently and keeps listing order", async () => {
+    bucket = new Map(["p/a.jpg", "p//a.jpg", "p/b.txt", "p/c.png", "p/d.jpg", "p/e.txt"].map((key) => [key, key]));
+    const migrator = createMigrator({ concurrency: 3, filters: { contentTypes: ["image/*"] } });
+    let inFlight = 0;
+    let peak = 0;
+    jest.spyOn((migrator as any).s3Service, "headObject").mockImplementation(async (key: any) => {
+      peak = Math.max(peak, ++inFlight);
+      // Objects listed first answer last
+      await new Promise((resolve) => setTimeout(resolve, 60 - [...bucket.keys()].indexOf(key) * 10));
+      inFlight--;
+      return { size: 1, contentType: key.endsWith(".txt") ? "text/plain" : "image/jpeg" };
+    });
+
+    const result = await migrator.migrateDirectory("p/", { jobId: "types" });
+    await migrator.close();
+
+    expect(peak).toBe(3);
+    expect(result.pathCollisions).toEqual([{ key: "p//a.jpg", path: "a.jpg", conflictingKey: "p/a.jpg" }]);
+    expect(result.skippedFiles?.map(({ key, reason }) => `${key}: ${reason}`)).toEqual([
+      "p/b.txt: content type text/plain",
+      "p/e.txt: content type text/plain",
+    ]);
+    expect(result.manifest?.entries.filter(({ type }) => type === "file").map(({ key }) => key).sort()).toEqual([
+      "p/a.jpg",
+      "p/c.png",
+      "p/d.jpg",
+    ]);
+  }, RUN_TIMEOUT);
+});
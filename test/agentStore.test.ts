@@ -0,0 +1,130 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { jest } from "@jest/globals";
+import type { AgentDataExport } from "@web3-storage/w3up-client/types";
+import { FileAgentStore } from "../src/services/agentStore.js";
+
+// The parts of an exported agent the store has to round-trip: Maps, byte arrays and URLs
+const agentData = (
+  principal: string,
+  spaces: string[] = [],
+  delegations: string[] = []
+): AgentDataExport =>
+  ({
+    meta: { name: "agent", type: "device" },
+    principal: { id: principal, keys: { [principal]: new Uint8Array([1, 2, 3, 4]) } },
+    currentSpace: spaces[0],
+    spaces: new Map(spaces.map((did) => [did, { name: did }])),
+    delegations: new Map(
+      delegations.map((cid) => [
+        cid,
+        {
+          meta: { audience: { name: "service", url: new URL("https://up.storacha.network") } },
+          delegation: [{ cid, bytes: new Uint8Array([5, 6, 7]).buffer }],
+        },
+      ])
+    ),
+  }) as unknown as AgentDataExport;
+
+describe("FileAgentStore", () => {
+  let directory: string;
+  let storePath: string;
+
+  beforeEach(async () => {
+    directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), "agent-store-"));
+    storePath = path.join(directory, "nested", "agent.json");
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  });
+
+  it("loads nothing before the first save", async () => {
+    expect(await new FileAgentStore({ path: storePath }).load()).toBeUndefined();
+  });
+
+  it("round-trips Maps, byte arrays and URLs", async () => {
+    const store = new FileAgentStore({ path: storePath });
+    await store.save(agentData("did:key:agent", ["did:key:space"], ["bafydelegation"]));
+
+    const loaded: any = await store.load();
+
+    expect(loaded.principal.keys["did:key:agent"]).toEqual(new Uint8Array([1, 2, 3, 4]));
+    expect(loaded.spaces).toEqual(new Map([["did:key:space", { name: "did:key:space" }]]));
+    const delegation = loaded.delegations.get("bafydelegation");
+    expect(delegation.meta.audience.url).toEqual(new URL("https://up.storacha.network"));
+    expect(delegation.delegation[0].bytes).toEqual(new Uint8Array([5, 6, 7]));
+    expect((await fs.promises.stat(storePath)).mode & 0o777).toBe(0o600);
+    expect(fs.existsSync(`${storePath}.lock`)).toBe(false);
+  });
+
+  it("encrypts the file with a passphrase", async () => {
+    const store = new FileAgentStore({ path: storePath, passphrase: "correct horse" });
+    await store.save(agentData("did:key:agent", ["did:key:space"]));
+
+    const contents = await fs.promises.readFile(storePath, "utf8");
+
+    expect(JSON.parse(contents)).toHaveProperty("$encrypted");
+    expect(contents).not.toContain("did:key:agent");
+    expect(((await store.load()) as any).spaces.has("did:key:space")).toBe(true);
+  });
+
+  it("refuses to read an encrypted file with the wrong passphrase or none", async () => {
+    await new FileAgentStore({ path: storePath, passphrase: "correct horse" }).save(agentData("did:key:agent"));
+
+    await expect(new FileAgentStore({ path: storePath, passphrase: "wrong" }).load()).rejects.toThrow(
+      `Could not decrypt agent store ${storePath}; check the passphrase`
+    );
+    await expect(new FileAgentStore({ path: storePath }).load()).rejects.toThrow(
+      `Agent store ${storePath} is encrypted; set agentStore.passphrase`
+    );
+  });
+
+  it("encrypts a plain file on the next save once a passphrase is set", async () => {
+    await new FileAgentStore({ path: storePath }).save(agentData("did:key:agent"));
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const store = new FileAgentStore({ path: storePath, passphrase: "correct horse" });
+
+    const loaded = await store.load();
+    expect(warn).toHaveBeenCalledWith(`⚠️ Agent store ${storePath} is not encrypted; it will be on the next save`);
+    await store.save(loaded as AgentDataExport);
+
+    expect(JSON.parse(await fs.promises.readFile(storePath, "utf8"))).toHaveProperty("$encrypted");
+  });
+
+  it("keeps spaces and delegations another migrator saved for the same agent", async () => {
+    const first = new FileAgentStore({ path: storePath, passphrase: "correct horse" });
+    const second = new FileAgentStore({ path: storePath, passphrase: "correct horse" });
+
+    await first.save(agentData("did:key:agent", ["did:key:a"], ["bafya"]));
+    await second.save(agentData("did:key:agent", ["did:key:b"], ["bafyb"]));
+    const loaded: any = await first.load();
+
+    expect([...loaded.spaces.keys()].sort()).toEqual(["did:key:a", "did:key:b"]);
+    expect([...loaded.delegations.keys()].sort()).toEqual(["bafya", "bafyb"]);
+  });
+
+  it("merges saves running at the same time", async () => {
+    const spaces = ["did:key:a", "did:key:b", "did:key:c", "did:key:d"];
+
+    await Promise.all(
+      spaces.map((space) => new FileAgentStore({ path: storePath }).save(agentData("did:key:agent", [space])))
+    );
+    const loaded: any = await new FileAgentStore({ path: storePath }).load();
+
+    expect([...loaded.spaces.keys()].sort()).toEqual(spaces);
+  });
+
+  it("replaces the data of a different agent", async () => {
+    const store = new FileAgentStore({ path: storePath });
+    await store.save(agentData("did:key:old", ["did:key:a"]));
+    await store.save(agentData("did:key:new", ["did:key:b"]));
+
+    const loaded: any = await store.load();
+
+    expect(loaded.principal.id).toBe("did:key:new");
+    expect([...loaded.spaces.keys()]).toEqual(["did:key:b"]);
+  });
+});
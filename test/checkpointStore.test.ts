@@ -0,0 +1,81 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { JsonFileCheckpointStore } from "../src/services/checkpointStore.js";
+import { CheckpointFileRecord, MigrationJob } from "../src/types/index.js";
+
+const record = (key: string, fields: Partial<CheckpointFileRecord> = {}): CheckpointFileRecord => ({
+  key,
+  state: "pending",
+  updatedAt: "2024-01-01T00:00:00.000Z",
+  ...fields,
+});
+
+describe("JsonFileCheckpointStore", () => {
+  let directory: string;
+  let store: JsonFileCheckpointStore;
+
+  beforeEach(async () => {
+    directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), "checkpoints-"));
+    store = new JsonFileCheckpointStore(directory);
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  });
+
+  it("round-trips the job document", async () => {
+    const job: MigrationJob = {
+      jobId: "photos/2024",
+      bucketName: "bucket",
+      directoryPath: "photos/2024/",
+      status: "running",
+      createdAt: "2024-01-01T00:00:00.000Z",
+      updatedAt: "2024-01-01T00:00:00.000Z",
+    };
+
+    expect(await store.loadJob(job.jobId)).toBeUndefined();
+    await store.saveJob(job);
+    await store.saveJob({ ...job, status: "completed", rootCid: "bafy" });
+
+    expect(await store.loadJob(job.jobId)).toEqual({ ...job, status: "completed", rootCid: "bafy" });
+    expect(await fs.promises.readdir(directory)).toEqual([`${encodeURIComponent(job.jobId)}.json`]);
+  });
+
+  it("replays the record log keeping the latest record per object", async () => {
+    await store.recordFiles("job", [record("a"), record("b")]);
+    await store.recordFiles("job", [record("a", { state: "completed", cid: "bafya" })]);
+    await store.recordFiles("job", []);
+
+    const records = await store.loadFiles("job");
+
+    expect([...records.keys()]).toEqual(["a", "b"]);
+    expect(records.get("a")).toMatchObject({ state: "completed", cid: "bafya" });
+    expect(records.get("b")).toMatchObject({ state: "pending" });
+  });
+
+  it("keeps a record for each version of a key", async () => {
+    await store.recordFiles("job", [
+      record("a", { versionId: "v1", state: "completed" }),
+      record("a", { versionId: "v2" }),
+      record("a", { state: "failed" }),
+    ]);
+
+    const records = await store.loadFiles("job");
+
+    expect([...records.keys()]).toEqual(["a?versionId=v1", "a?versionId=v2", "a"]);
+  });
+
+  it("ignores a torn final line from an interrupted write", async () => {
+    await store.recordFiles("job", [record("a", { state: "completed" })]);
+    await fs.promises.appendFile(path.join(directory, "job.files.jsonl"), '{"key":"a","state":"fai');
+
+    const records = await store.loadFiles("job");
+
+    expect(records.get("a")).toMatchObject({ state: "completed" });
+  });
+
+  it("returns no records for an unknown job", async () => {
+    expect((await store.loadFiles("missing")).size).toBe(0);
+  });
+});
@@ -0,0 +1,202 @@
+import { jest } from "@jest/globals";
+import { S3Service } from "../src/services/s3Service.js";
+import { StorachaClient } from "../src/services/storachaService.js";
+import { FileData } from "../src/types/index.js";
+import { mapWithConcurrency, runWithConcurrency } from "../src/utils/concurrency.js";
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function collect<T>(items: AsyncIterable<T>): Promise<T[]> {
+  const results: T[] = [];
+  for await (const item of items) results.push(item);
+  return results;
+}
+
+describe("runWithConcurrency", () => {
+  it("keeps at most `concurrency` workers in flight", async () => {
+    let active = 0;
+    let peak = 0;
+    const done: number[] = [];
+
+    await runWithConcurrency([1, 2, 3, 4, 5, 6], 2, async (item) => {
+      active++;
+      peak = Math.max(peak, active);
+      await delay(item % 2 ? 5 : 1);
+      active--;
+      done.push(item);
+    });
+
+    expect(peak).toBe(2);
+    expect(done.sort()).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+
+  it("lets the other slots finish before rejecting with the first error", async () => {
+    const done: number[] = [];
+
+    await expect(
+      runWithConcurrency([1, 2, 3, 4], 2, async (item) => {
+        await delay(1);
+        if (item === 1) throw new Error("worker failed");
+        done.push(item);
+      })
+    ).rejects.toThrow("worker failed");
+
+    // The failed slot stops, the other one drains the remaining items
+    expect(done).toEqual([2, 3, 4]);
+  });
+
+  it("pulls items from an async source", async () => {
+    async function* source() {
+      yield "a";
+      await delay(1);
+      yield "b";
+    }
+    const seen: string[] = [];
+
+    await runWithConcurrency(source(), 3, async (item) => {
+      seen.push(item);
+    });
+
+    expect(seen).toEqual(["a", "b"]);
+  });
+});
+
+describe("mapWithConcurrency", () => {
+  it("yields results in completion order", async () => {
+    const results = await collect(
+      mapWithConcurrency([30, 1, 10], 3, async (ms) => {
+        await delay(ms);
+        return ms;
+      })
+    );
+
+    expect(results).toEqual([1, 10, 30]);
+  });
+
+  it("only starts new calls while the consumer keeps pulling", async () => {
+    let started = 0;
+    const results = mapWithConcurrency([1, 2, 3, 4, 5], 2, async (item) => {
+      started++;
+      return item;
+    });
+
+    await results.next();
+    await delay(5);
+    expect(started).toBe(2);
+    await results.return(undefined);
+  });
+
+  it("throws a mapper error from the iteration", async () => {
+    await expect(
+      collect(
+        mapWithConcurrency([1, 2], 2, async (item) => {
+          if (item === 2) throw new Error("fetch failed");
+          return item;
+        })
+      )
+    ).rejects.toThrow("fetch failed");
+  });
+});
+
+describe("fetch failures", () => {
+  const file = (key: string): FileData => ({
+    key,
+    fileName: key,
+    size: 3,
+    stream: () => new Blob([key]).stream(),
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  // A body that fails after the first chunk, like a GET of an object deleted since it was listed
+  const failingFile = (key: string): FileData => ({
+    ...file(key),
+    stream: () =>
+      new ReadableStream({
+        pull(controller) {
+          controller.enqueue(new TextEncoder().encode(key));
+          controller.error(new Error("NoSuchKey: The specified key does not exist."));
+        },
+      }),
+  });
+
+  it("passes objects that fail to open on as failed files", async () => {
+    const s3Service = new S3Service({
+      bucketName: "bucket",
+      region: "us-east-1",
+      credentials: { accessKeyId: "key", secretAccessKey: "secret" },
+    });
+    jest.spyOn(s3Service, "openFile").mockImplementation(async ({ key }) => {
+      if (key === "b") throw new Error("Access Denied");
+      return file(key);
+    });
+
+    const results = await collect(
+      s3Service.fetchFiles([{ key: "a", size: 1 }, { key: "b", size: 1 }, { key: "c", size: 1 }], 2)
+    );
+
+    expect(results.map((result) => ("error" in result ? `${result.key}: ${result.error.message}` : result.key)).sort())
+      .toEqual(["a", "b: Access Denied", "c"]);
+  });
+
+  it("reports failed files and uploads the rest without creating the directory", async () => {
+    const client = new StorachaClient();
+    const uploaded: string[] = [];
+    const failed: string[] = [];
+    jest.spyOn(client as any, "prepareUpload").mockImplementation(async () => async () => ({}));
+    jest.spyOn(client as any, "uploadDirectoryEntry").mockImplementation(async (_conf, file) => ({
+      path: (file as FileData).key,
+      cid: "bafkqaaa",
+      size: 0,
+      dagByteLength: 0,
+    }));
+
+    const result = await client.uploadFilesAsDirectory(
+      [file("a"), { key: "b", error: new Error("Access Denied") }, file("c")],
+      {
+        concurrency: 2,
+        onFileUploaded: ({ key }) => {
+          uploaded.push(key);
+        },
+        onFileFailed: ({ key }, error) => {
+          failed.push(`${key}: ${error.message}`);
+        },
+      }
+    );
+
+    expect(result).toMatchObject({ success: false, error: "1 file(s) failed to upload" });
+    expect(uploaded.sort()).toEqual(["a", "c"]);
+    expect(failed).toEqual(["b: Access Denied"]);
+  });
+
+  it("reports files whose body fails midway through the read", async () => {
+    const client = new StorachaClient();
+    const failed: string[] = [];
+    jest.spyOn(client as any, "prepareUpload").mockImplementation(async () => async () => ({}));
+
+    const result = await client.uploadFilesAsDirectory([failingFile("a")], {
+      onFileFailed: ({ key }, error) => {
+        failed.push(`${key}: ${error.message}`);
+      },
+    });
+
+    expect(result).toMatchObject({ success: false, error: "1 file(s) failed to upload" });
+    expect(failed).toEqual(["a: NoSuchKey: The specified key does not exist."]);
+  });
+
+  it("fails a single file upload whose body fails midway through the read", async () => {
+    const client = new StorachaClient();
+    jest.spyOn(client as any, "prepareUpload").mockImplementation(async () => async () => ({}));
+
+    const result = await client.uploadToStoracha(failingFile("a"));
+
+    expect(result).toMatchObject({ success: false, error: "NoSuchKey: The specified key does not exist." });
+  });
+});
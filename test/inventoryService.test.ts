@@ -0,0 +1,132 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import zlib from "zlib";
+import { fileURLToPath } from "url";
+import { jest } from "@jest/globals";
+import { InventoryService } from "../src/services/inventoryService.js";
+import { S3Service } from "../src/services/s3Service.js";
+import { FileData, S3ServiceConfig } from "../src/types/index.js";
+
+const reportDirectory = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "fixtures/inventory/my-bucket/daily"
+);
+const manifestPath = path.join(reportDirectory, "2024-06-01T01-00Z/manifest.json");
+const dataPath = path.join(reportDirectory, "data/part-0.csv");
+
+const s3Config: S3ServiceConfig = {
+  bucketName: "my-bucket",
+  region: "us-east-1",
+  credentials: { accessKeyId: "key", secretAccessKey: "secret" },
+};
+
+async function collect<T>(items: AsyncIterable<T>): Promise<T[]> {
+  const results: T[] = [];
+  for await (const item of items) results.push(item);
+  return results;
+}
+
+describe("InventoryService", () => {
+  const service = new InventoryService(s3Config);
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("yields the current objects under a prefix from a local report", async () => {
+    const objects = await collect(service.listObjects({ manifest: manifestPath }, "photos/"));
+
+    expect(objects).toEqual([
+      {
+        key: "photos/a.jpg",
+        size: 10,
+        etag: "ea2",
+        lastModified: new Date("2024-05-01T00:00:00.000Z"),
+        storageClass: "STANDARD",
+      },
+      {
+        key: 'photos/my holiday, "best".jpg',
+        size: 20,
+        etag: "eh",
+        lastModified: new Date("2024-05-02T00:00:00.000Z"),
+        storageClass: "STANDARD",
+      },
+      {
+        key: 'photos/b,c "quoted".txt',
+        size: 5,
+        etag: "eb",
+        lastModified: new Date("2024-05-03T00:00:00.000Z"),
+        storageClass: "STANDARD",
+      },
+    ]);
+  });
+
+  it("yields every version and delete marker when versions are read", async () => {
+    const objects = await collect(service.listObjects({ manifest: manifestPath }, "photos/", { versions: true }));
+
+    expect(objects.map(({ key, versionId, isLatest, deleteMarker, size }) => ({ key, versionId, isLatest, deleteMarker, size })))
+      .toEqual([
+        { key: "photos/a.jpg", versionId: "a2", isLatest: true, deleteMarker: false, size: 10 },
+        { key: "photos/a.jpg", versionId: "a1", isLatest: false, deleteMarker: false, size: 8 },
+        { key: 'photos/my holiday, "best".jpg', versionId: "null", isLatest: true, deleteMarker: false, size: 20 },
+        { key: 'photos/b,c "quoted".txt', versionId: "b1", isLatest: true, deleteMarker: false, size: 5 },
+        { key: "photos/gone.txt", versionId: "g2", isLatest: true, deleteMarker: true, size: 0 },
+        { key: "photos/gone.txt", versionId: "g1", isLatest: false, deleteMarker: false, size: 3 },
+      ]);
+  });
+
+  it("reads gzipped data files from a custom data directory", async () => {
+    const directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), "inventory-"));
+    try {
+      const manifest = JSON.parse(await fs.promises.readFile(manifestPath, "utf8"));
+      manifest.files = [{ key: "my-bucket/daily/data/part-0.csv.gz" }];
+      await fs.promises.writeFile(path.join(directory, "manifest.json"), JSON.stringify(manifest));
+      await fs.promises.writeFile(path.join(directory, "part-0.csv.gz"), zlib.gzipSync(await fs.promises.readFile(dataPath)));
+
+      const objects = await collect(
+        service.listObjects({ manifest: path.join(directory, "manifest.json"), dataDirectory: directory }, "other/")
+      );
+
+      expect(objects.map(({ key }) => key)).toEqual(["other/x.txt"]);
+    } finally {
+      await fs.promises.rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("rejects a report of another bucket", async () => {
+    const other = new InventoryService({ ...s3Config, bucketName: "other-bucket" });
+
+    await expect(collect(other.listObjects({ manifest: manifestPath }, "photos/"))).rejects.toThrow(
+      `Inventory ${manifestPath} lists bucket my-bucket, not other-bucket`
+    );
+  });
+
+  it("reads a report in S3 through one service per bucket", async () => {
+    const services = new Set<S3Service>();
+    const reads: string[] = [];
+    jest.spyOn(S3Service.prototype, "fetchFileFromS3").mockImplementation(async function (this: S3Service, key) {
+      services.add(this);
+      reads.push(`${this.bucketName}/${key}`);
+      const contents = await fs.promises.readFile(key.endsWith("manifest.json") ? manifestPath : dataPath);
+      return { stream: () => new Blob([contents]).stream() } as FileData;
+    });
+    const manifest = "s3://inventory-bucket/my-bucket/daily/2024-06-01T01-00Z/manifest.json";
+
+    await collect(service.listObjects({ manifest }, "photos/"));
+    await collect(service.listObjects({ manifest }, "other/"));
+
+    expect(reads).toEqual([
+      "inventory-bucket/my-bucket/daily/2024-06-01T01-00Z/manifest.json",
+      "inventory-bucket/my-bucket/daily/data/part-0.csv",
+      "inventory-bucket/my-bucket/daily/2024-06-01T01-00Z/manifest.json",
+      "inventory-bucket/my-bucket/daily/data/part-0.csv",
+    ]);
+    // One per listing, not one per file
+    expect(services.size).toBe(2);
+  });
+});
@@ -0,0 +1,97 @@
+import {
+  DirectoryPathResolver,
+  relativePath,
+  resolveDirectoryPaths,
+} from "../src/utils/pathResolver.js";
+
+const objects = (...keys: string[]) => keys.map((key) => ({ key }));
+
+describe("resolveDirectoryPaths", () => {
+  it("maps keys to paths relative to the migrated prefix", () => {
+    const { paths, collisions } = resolveDirectoryPaths(
+      objects("photos/2024/a.jpg", "photos/2024/b/c.jpg", "photos/d.jpg"),
+      "photos/"
+    );
+
+    expect([...paths]).toEqual([
+      ["photos/2024/a.jpg", "2024/a.jpg"],
+      ["photos/2024/b/c.jpg", "2024/b/c.jpg"],
+      ["photos/d.jpg", "d.jpg"],
+    ]);
+    expect(collisions).toEqual([]);
+  });
+
+  it("reports keys whose path is taken, keeping the first one listed", () => {
+    const { paths, collisions } = resolveDirectoryPaths(
+      objects("photos/x", "photos/x/y", "photos/2024/a.jpg", "photos//2024/a.jpg"),
+      "photos/"
+    );
+
+    expect([...paths.keys()]).toEqual(["photos/x", "photos/2024/a.jpg"]);
+    expect(collisions).toEqual([
+      { key: "photos/x/y", path: "x/y", conflictingKey: "photos/x" },
+      { key: "photos//2024/a.jpg", path: "2024/a.jpg", conflictingKey: "photos/2024/a.jpg" },
+    ]);
+  });
+
+  it("reports a file that would need to be a folder already in use", () => {
+    const { collisions } = resolveDirectoryPaths(objects("p/a/b.txt", "p/a"), "p/");
+
+    expect(collisions).toEqual([{ key: "p/a", path: "a", conflictingKey: "p/a/b.txt" }]);
+  });
+
+  it("flattens paths to file names", () => {
+    const { paths, collisions } = resolveDirectoryPaths(
+      objects("photos/2024/a.jpg", "photos/2025/a.jpg", "photos/2025/b.jpg"),
+      "photos",
+      { flatten: true }
+    );
+
+    expect([...paths.values()]).toEqual(["a.jpg", "b.jpg"]);
+    expect(collisions.map(({ key }) => key)).toEqual(["photos/2025/a.jpg"]);
+  });
+
+  it("strips a custom prefix", () => {
+    const { paths } = resolveDirectoryPaths(objects("data/photos/2024/a.jpg"), "data/photos/2024", {
+      stripPrefix: "data",
+    });
+
+    expect(paths.get("data/photos/2024/a.jpg")).toBe("photos/2024/a.jpg");
+  });
+
+  it("keeps the whole folder name under a partial prefix", () => {
+    const { paths } = resolveDirectoryPaths(objects("photos/2024/a.jpg"), "photos/20");
+
+    expect(paths.get("photos/2024/a.jpg")).toBe("2024/a.jpg");
+  });
+
+  it("lays out object versions under the key", () => {
+    const { paths } = resolveDirectoryPaths(
+      [
+        { key: "p/a.txt", versionId: "v2" },
+        { key: "p/a.txt", versionId: "v1" },
+      ],
+      "p/"
+    );
+
+    expect([...paths.values()]).toEqual(["a.txt/.versions/v2", "a.txt/.versions/v1"]);
+  });
+});
+
+describe("DirectoryPathResolver", () => {
+  it("claims paths one object at a time", () => {
+    const resolver = new DirectoryPathResolver("p/");
+
+    expect(resolver.claim({ key: "p/a" })).toBe("a");
+    expect(resolver.claim({ key: "p//a" })).toBeUndefined();
+    expect(resolver.pathOf({ key: "p//a" })).toBe("a");
+    expect(resolver.fileAt("a")).toBe("p/a");
+    expect(resolver.collisions).toHaveLength(1);
+  });
+});
+
+describe("relativePath", () => {
+  it("falls back to the file name for a key equal to the prefix", () => {
+    expect(relativePath("photos/a.jpg", "photos/a.jpg")).toBe("a.jpg");
+  });
+});
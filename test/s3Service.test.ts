@@ -0,0 +1,251 @@
+import { jest } from "@jest/globals";
+import { GetObjectCommand } from "@aws-sdk/client-s3";
+import { S3Service } from "../src/services/s3Service.js";
+import { StorachaClient } from "../src/services/storachaService.js";
+import { S3ServiceConfig } from "../src/types/index.js";
+
+type Send = (command: any, options?: { abortSignal?: AbortSignal }) => Promise<any>;
+
+// An S3Service whose client answers commands with `send` instead of the network
+function stubS3Service(send: Send, config: Partial<S3ServiceConfig> = {}) {
+  const service = new S3Service({
+    bucketName: "bucket",
+    region: "us-east-1",
+    credentials: { accessKeyId: "key", secretAccessKey: "secret" },
+    ...config,
+  });
+  const client = { send: jest.fn(send) };
+  Object.assign(service, { client });
+  return { service, send: client.send };
+}
+
+const body = (bytes: Uint8Array) => ({ transformToWebStream: () => new Blob([bytes]).stream() });
+
+const noSuchKey = () => Object.assign(new Error("The specified key does not exist."), { name: "NoSuchKey" });
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<string> {
+  return new Response(stream).text();
+}
+
+describe("S3Service", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("openFile", () => {
+    it("reads headers from the GET response instead of a HEAD request", async () => {
+      const { service, send } = stubS3Service(async () => ({
+        Body: body(new TextEncoder().encode("hello")),
+        ContentType: "text/plain",
+        Metadata: { owner: "me" },
+      }));
+
+      const file = await service.openFile({ key: "p/a.txt", size: 5, etag: "abc" });
+      expect(send).not.toHaveBeenCalled();
+
+      expect(await readAll(file.stream())).toBe("hello");
+      expect(send).toHaveBeenCalledTimes(1);
+      expect(send.mock.calls[0][0]).toBeInstanceOf(GetObjectCommand);
+      expect(file).toMatchObject({ fileName: "a.txt", contentType: "text/plain" });
+      expect(file.metadata?.userMetadata).toEqual({ owner: "me" });
+    });
+
+    it("fails the upload of an object deleted since it was listed", async () => {
+      const { service } = stubS3Service(async () => {
+        throw noSuchKey();
+      });
+      const client = new StorachaClient();
+      jest.spyOn(client as any, "prepareUpload").mockImplementation(async () => async () => ({}));
+      const failed: string[] = [];
+
+      const result = await client.uploadFilesAsDirectory(service.fetchFiles([{ key: "p/gone", size: 5 }]), {
+        onFileFailed: ({ key }, error) => {
+          failed.push(`${key}: ${error.name}`);
+        },
+      });
+
+      expect(result.success).toBe(false);
+      expect(failed).toEqual(["p/gone: NoSuchKey"]);
+    });
+  });
+
+  describe("ranged downloads", () => {
+    const contents = "hello world!";
+    const download = { threshold: 1, partSize: 4, partConcurrency: 2, partRetries: 1 };
+
+    // Answers each range with its slice of `contents`, after `delay(range)` ms
+    const rangeResponse = async (command: any, delay: (range: string) => number = () => 0) => {
+      const range: string = command.input.Range;
+      const [start, end] = range.replace("bytes=", "").split("-").map(Number);
+      await new Promise((resolve) => setTimeout(resolve, delay(range)));
+      return { Body: body(new TextEncoder().encode(contents.slice(start, end + 1))) };
+    };
+
+    it("downloads parts side by side and emits them in order", async () => {
+      const { service, send } = stubS3Service(
+        (command) => rangeResponse(command, (range) => (range === "bytes=0-3" ? 20 : 0)),
+        { download }
+      );
+
+      const file = await service.openFile({ key: "big", size: contents.length, etag: "abc" });
+
+      expect(await readAll(file.stream())).toBe(contents);
+      expect(send.mock.calls.map(([command]) => command.input.Range)).toEqual([
+        "bytes=0-3",
+        "bytes=4-7",
+        "bytes=8-11",
+      ]);
+      expect(send.mock.calls.every(([command]) => command.input.IfMatch === '"abc"')).toBe(true);
+    });
+
+    it("retries a failed part on its own", async () => {
+      let failures = 0;
+      const { service, send } = stubS3Service(async (command) => {
+        if (command.input.Range === "bytes=4-7" && failures++ === 0) {
+          throw Object.assign(new Error("socket hang up"), { name: "ECONNRESET" });
+        }
+        return rangeResponse(command);
+      }, { download });
+      jest.spyOn(console, "warn").mockImplementation(() => {});
+
+      const file = await service.openFile({ key: "big", size: contents.length, etag: "abc" });
+
+      expect(await readAll(file.stream())).toBe(contents);
+      expect(send.mock.calls.map(([command]) => command.input.Range).sort()).toEqual([
+        "bytes=0-3",
+        "bytes=4-7",
+        "bytes=4-7",
+        "bytes=8-11",
+      ]);
+    });
+
+    it("fails without retrying when the object changed", async () => {
+      const { service, send } = stubS3Service(async () => {
+        throw Object.assign(new Error("At least one of the pre-conditions you specified did not hold"), {
+          name: "PreconditionFailed",
+        });
+      }, { download: { ...download, partConcurrency: 1 } });
+
+      const file = await service.openFile({ key: "big", size: contents.length, etag: "abc" });
+
+      await expect(readAll(file.stream())).rejects.toMatchObject({ name: "PreconditionFailed" });
+      expect(send).toHaveBeenCalledTimes(1);
+    });
+
+    it("aborts the parts in flight once a part fails", async () => {
+      const aborted: string[] = [];
+      const { service } = stubS3Service(
+        (command, options?: { abortSignal?: AbortSignal }) => {
+          const range: string = command.input.Range;
+          if (range === "bytes=0-3") {
+            return Promise.reject(Object.assign(new Error("Access Denied"), { name: "AccessDenied" }));
+          }
+          // Later parts only finish when they are aborted
+          return new Promise((_, reject) => {
+            options?.abortSignal?.addEventListener("abort", () => {
+              aborted.push(range);
+              reject(Object.assign(new Error("aborted"), { name: "AbortError" }));
+            });
+          });
+        },
+        { download: { ...download, partConcurrency: 3, partRetries: 0 } }
+      );
+
+      const file = await service.openFile({ key: "big", size: contents.length, etag: "abc" });
+
+      await expect(readAll(file.stream())).rejects.toMatchObject({ name: "AccessDenied" });
+      expect(aborted.sort()).toEqual(["bytes=4-7", "bytes=8-11"]);
+    });
+
+    it("rejects a part size that is not a positive number of bytes", () => {
+      expect(() => stubS3Service(async () => ({}), { download: { partSize: 0 } })).toThrow(
+        "download.partSize must be a positive whole number of bytes, got 0"
+      );
+    });
+  });
+
+  describe("listings", () => {
+    async function collect<T>(items: AsyncIterable<T>): Promise<T[]> {
+      const results: T[] = [];
+      for await (const item of items) results.push(item);
+      return results;
+    }
+
+    it("follows continuation tokens across pages", async () => {
+      const pages: Record<string, any> = {
+        start: {
+          Contents: [{ Key: "p/a", Size: 1, ETag: '"ea"' }, { Key: "p/b", Size: 2 }],
+          IsTruncated: true,
+          NextContinuationToken: "page-2",
+        },
+        "page-2": { Contents: [{ Key: "p/c", Size: 3 }], IsTruncated: false },
+      };
+      const { service, send } = stubS3Service(async (command) => pages[command.input.ContinuationToken ?? "start"]);
+
+      const entries = await collect(service.listObjectsInS3Directory("p/"));
+
+      expect(entries.map(({ key, size, etag }) => ({ key, size, etag }))).toEqual([
+        { key: "p/a", size: 1, etag: "ea" },
+        { key: "p/b", size: 2, etag: undefined },
+        { key: "p/c", size: 3, etag: undefined },
+      ]);
+      expect(send.mock.calls.map(([command]) => command.input)).toMatchObject([
+        { Bucket: "bucket", Prefix: "p/", ContinuationToken: undefined },
+        { Bucket: "bucket", Prefix: "p/", ContinuationToken: "page-2" },
+      ]);
+    });
+
+    it("only requests the next page once the current one is consumed", async () => {
+      const { service, send } = stubS3Service(async () => ({
+        Contents: [{ Key: "p/a", Size: 1 }],
+        IsTruncated: true,
+        NextContinuationToken: "more",
+      }));
+
+      const listing = service.listObjectsInS3Directory("p/");
+      await listing.next();
+      await listing.return(undefined);
+
+      expect(send).toHaveBeenCalledTimes(1);
+    });
+
+    it("follows key and version markers across version pages", async () => {
+      const pages: Record<string, any> = {
+        start: {
+          Versions: [
+            { Key: "p/a", VersionId: "a2", IsLatest: true, Size: 2 },
+            { Key: "p/a", VersionId: "a1", IsLatest: false, Size: 1 },
+          ],
+          IsTruncated: true,
+          NextKeyMarker: "p/a",
+          NextVersionIdMarker: "a1",
+        },
+        "p/a@a1": {
+          Versions: [{ Key: "p/b", Size: 3, IsLatest: false }],
+          DeleteMarkers: [{ Key: "p/b", VersionId: "b2", IsLatest: true }],
+          IsTruncated: false,
+        },
+      };
+      const { service, send } = stubS3Service(async ({ input }) =>
+        pages[input.KeyMarker ? `${input.KeyMarker}@${input.VersionIdMarker}` : "start"]
+      );
+
+      const versions = await collect(service.listObjectVersionsInS3Directory("p/"));
+
+      expect(versions.map(({ key, versionId, isLatest, deleteMarker }) => ({ key, versionId, isLatest, deleteMarker })))
+        .toEqual([
+          { key: "p/a", versionId: "a2", isLatest: true, deleteMarker: false },
+          { key: "p/a", versionId: "a1", isLatest: false, deleteMarker: false },
+          // Objects stored before versioning was enabled have the "null" version
+          { key: "p/b", versionId: "null", isLatest: false, deleteMarker: false },
+          { key: "p/b", versionId: "b2", isLatest: true, deleteMarker: true },
+        ]);
+      expect(send).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { CAR, UnixFS } from "@web3-storage/upload-client";
+import { DirectoryEntry } from "../src/types/index.js";
+import { computeFileCid, encodeDirectoryFromEntries, encodeFile } from "../src/utils/unixfsEncoder.js";
+
+const fileAt = (path: string) => {
+  const contents = new TextEncoder().encode(`contents of ${path}`);
+  return { path, size: contents.length, stream: () => new Blob([contents]).stream() };
+};
+
+// Stores nothing: the entry is what uploadDirectoryEntry derives from the encoded file
+async function toEntry({ path, size, stream }: ReturnType<typeof fileAt>): Promise<DirectoryEntry> {
+  const { blocks, dagByteLength } = encodeFile({ stream });
+  let root: CAR.Block | undefined;
+  await blocks.pipeTo(
+    new WritableStream({
+      write(block) {
+        root = block;
+      },
+    })
+  );
+  return { path, cid: root!.cid.toString(), size, dagByteLength: dagByteLength() };
+}
+
+async function expectUploadDirectoryCid(paths: string[]) {
+  const files = paths.map(fileAt);
+  const expected = await UnixFS.encodeDirectory(files.map(({ path, stream }) => ({ name: path, stream })));
+
+  const directory = await encodeDirectoryFromEntries(await Promise.all(files.map(toEntry)));
+
+  expect(directory.cid.toString()).toBe(expected.cid.toString());
+}
+
+describe("encodeDirectoryFromEntries", () => {
+  it("matches the upload-client's CID for a flat directory", async () => {
+    await expectUploadDirectoryCid(["a.txt", "b.txt", "c.txt"]);
+  });
+
+  it("matches the upload-client's CID for nested paths", async () => {
+    await expectUploadDirectoryCid(["2024/01/a.jpg", "2024/02/b.jpg", "2024/c.jpg", "d.txt"]);
+  });
+
+  it("matches the upload-client's CID for a directory large enough to be sharded", async () => {
+    await expectUploadDirectoryCid(Array.from({ length: 1001 }, (_, i) => `logs/${i}.log`));
+  });
+
+  it("returns a CAR of the directory blocks rooted at the directory", async () => {
+    const directory = await encodeDirectoryFromEntries([await toEntry(fileAt("a/b.txt"))]);
+    const blocks: CAR.Block[] = [];
+    await new CAR.BlockStream(directory.car).pipeTo(
+      new WritableStream({
+        write(block) {
+          blocks.push(block);
+        },
+      })
+    );
+
+    // Only the two directory nodes, the file was stored separately
+    expect(blocks).toHaveLength(2);
+    expect(blocks[blocks.length - 1].cid.toString()).toBe(directory.cid.toString());
+  });
+});
+
+describe("computeFileCid", () => {
+  it("matches the root of the encoded file", async () => {
+    const file = fileAt("a.txt");
+
+    expect((await computeFileCid(file)).toString()).toBe((await toEntry(file)).cid);
+  });
+
+  it("rejects when the file fails to read instead of leaving the blocks open", async () => {
+    const file = {
+      stream: () =>
+        new ReadableStream<Uint8Array>({
+          pull(controller) {
+            controller.error(new Error("AccessDenied"));
+          },
+        }),
+    };
+
+    await expect(computeFileCid(file)).rejects.toThrow("AccessDenied");
+  });
+});
@@ -0,0 +1,154 @@
+import { createHash } from "crypto";
+import { jest } from "@jest/globals";
+import { S3Service } from "../src/services/s3Service.js";
+import { VerificationService } from "../src/services/verificationService.js";
+import { FileData, ManifestEntry, MigrationManifest } from "../src/types/index.js";
+import { computeFileCid } from "../src/utils/unixfsEncoder.js";
+
+const contents = new TextEncoder().encode("hello world");
+const md5 = createHash("md5").update(contents).digest("hex");
+
+// Only the parts of S3Service verification touches
+const stubS3Service = (bucketName: string, files: Record<string, Partial<FileData>> = {}) =>
+  ({
+    bucketName,
+    fetchFileFromS3: jest.fn(async (key: string) => {
+      if (!(key in files)) throw new Error(`NoSuchKey: ${key}`);
+      return { key, stream: () => new Blob([contents]).stream(), ...files[key] };
+    }),
+  }) as unknown as S3Service;
+
+const manifestOf = (entries: Array<Partial<ManifestEntry> & { key: string }>): MigrationManifest => ({
+  entries: entries.map((entry) => ({
+    type: "file",
+    size: contents.length,
+    cid: "",
+    path: entry.key,
+    timestamp: "2024-01-01T00:00:00.000Z",
+    ...entry,
+  })),
+  jsonlPath: "",
+  csvPath: "",
+});
+
+describe("VerificationService", () => {
+  let cid: string;
+
+  beforeAll(async () => {
+    cid = (await computeFileCid({ stream: () => new Blob([contents]).stream() })).toString();
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("passes files whose recomputed CID and ETag match", async () => {
+    const service = new VerificationService(stubS3Service("bucket", { a: {} }));
+
+    const report = await service.verifyManifest(manifestOf([{ key: "a", cid, etag: md5 }]));
+
+    expect(report).toMatchObject({ passed: true, totalFiles: 1, passedFiles: 1, failedFiles: 0 });
+    expect(report.results[0]).toMatchObject({ actualCid: cid, cidMatch: true, etagMatch: true });
+  });
+
+  it("fails files whose content no longer matches", async () => {
+    const service = new VerificationService(stubS3Service("bucket", { a: {}, b: {} }));
+
+    const report = await service.verifyManifest(
+      manifestOf([
+        { key: "a", cid: "bafkqaaa", etag: md5 },
+        { key: "b", cid, etag: "0".repeat(32) },
+      ])
+    );
+
+    expect(report).toMatchObject({ passed: false, passedFiles: 0, failedFiles: 2 });
+    expect(report.results.map(({ cidMatch, etagMatch }) => ({ cidMatch, etagMatch }))).toEqual([
+      { cidMatch: false, etagMatch: true },
+      { cidMatch: true, etagMatch: false },
+    ]);
+  });
+
+  it("only compares ETags that are an MD5 of the content", async () => {
+    const service = new VerificationService(
+      stubS3Service("bucket", { plain: {}, multipart: {}, ssec: { encryption: "SSE-C" }, kms: { encryption: "aws:kms" } })
+    );
+
+    const report = await service.verifyManifest(
+      manifestOf([
+        { key: "plain", cid, etag: md5 },
+        { key: "multipart", cid, etag: "abc-2" },
+        { key: "ssec", cid, etag: "abc" },
+        { key: "kms", cid, etag: "abc" },
+      ])
+    );
+
+    expect(report.passed).toBe(true);
+    expect(report.results.map(({ etagMatch }) => etagMatch)).toEqual([true, undefined, undefined, undefined]);
+  });
+
+  it("skips ETags when compareEtag is false", async () => {
+    const service = new VerificationService(stubS3Service("bucket", { a: {} }));
+
+    const report = await service.verifyManifest(manifestOf([{ key: "a", cid, etag: "abc" }]), { compareEtag: false });
+
+    expect(report.results[0].passed).toBe(true);
+    expect(report.results[0].etagMatch).toBeUndefined();
+  });
+
+  it("reads entries from the bucket they came from", async () => {
+    const primary = stubS3Service("primary", { a: {} });
+    const other = stubS3Service("other", { b: {} });
+    const service = new VerificationService(primary, (bucket) => (bucket === "other" ? other : undefined));
+
+    const report = await service.verifyManifest(
+      manifestOf([
+        { key: "a", cid, bucket: "primary" },
+        { key: "b", cid, bucket: "other", versionId: "v1" },
+        { key: "c", cid, bucket: "unknown" },
+      ])
+    );
+
+    expect(primary.fetchFileFromS3).toHaveBeenCalledWith("a", undefined);
+    expect(other.fetchFileFromS3).toHaveBeenCalledWith("b", "v1");
+    expect(report.results.map(({ passed }) => passed)).toEqual([true, true, false]);
+    expect(report.results[2].error).toMatch(/c is from bucket unknown/);
+  });
+
+  it("records files whose body fails midway through the read", async () => {
+    const service = new VerificationService(
+      stubS3Service("bucket", {
+        a: {
+          stream: () =>
+            new ReadableStream<Uint8Array>({
+              pull(controller) {
+                controller.error(new Error("PreconditionFailed"));
+              },
+            }),
+        },
+      })
+    );
+
+    const report = await service.verifyManifest(manifestOf([{ key: "a", cid }]));
+
+    expect(report.results[0]).toMatchObject({ passed: false, error: "PreconditionFailed" });
+  });
+
+  it("records fetch errors and verifies only file entries", async () => {
+    const service = new VerificationService(stubS3Service("bucket"));
+
+    const report = await service.verifyManifest(
+      manifestOf([
+        { key: "missing", cid },
+        { key: "dir/", type: "directory" },
+      ])
+    );
+
+    expect(report.totalFiles).toBe(1);
+    expect(report.results[0]).toMatchObject({ passed: false, error: "NoSuchKey: missing" });
+  });
+});